@@ -0,0 +1,126 @@
+// API keys for HTTP mode. Each client sends "Authorization: Bearer <key>";
+// the key file says what that client may do:
+//
+//   {
+//     "keys": [
+//       { "name": "reader", "key": "...", "scope": "read" },
+//       { "name": "editor", "key": "...", "scope": "write", "namespaces": [0, 2] },
+//       { "name": "ops", "key": "...", "scope": "admin" }
+//     ]
+//   }
+//
+// Scopes are cumulative: "write" includes "read", "admin" includes both.
+// "namespaces", if given, limits the pages a key may change; reads are not
+// restricted.
+
+import { createHash, timingSafeEqual } from "crypto";
+import { readSecretFile } from "./secrets.js";
+
+export type ApiScope = "read" | "write" | "admin";
+
+export interface ApiKey {
+  name: string;
+  scope: ApiScope;
+  namespaces?: number[];
+}
+
+const SCOPES: ApiScope[] = ["read", "write", "admin"];
+
+// Keys shorter than this are too easy to guess
+const MIN_KEY_LENGTH = 16;
+
+export function scopeAllows(granted: ApiScope, required: ApiScope): boolean {
+  return SCOPES.indexOf(granted) >= SCOPES.indexOf(required);
+}
+
+const hashKey = (key: string): Buffer =>
+  createHash("sha256").update(key).digest();
+
+export class ApiKeys {
+  // Keys are held as hashes and compared in constant time
+  private keys: { hash: Buffer; apiKey: ApiKey }[] = [];
+
+  constructor(entries: { key: string; apiKey: ApiKey }[]) {
+    this.keys = entries.map(({ key, apiKey }) => ({
+      hash: hashKey(key),
+      apiKey
+    }));
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  lookup(key: string): ApiKey | undefined {
+    const hash = hashKey(key);
+    return this.keys.find((entry) => timingSafeEqual(entry.hash, hash))?.apiKey;
+  }
+}
+
+export function loadApiKeys(filePath: string): ApiKeys {
+  // The key file holds secrets, so it gets the same checks as a password file
+  const text = readSecretFile(filePath);
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Cannot read API keys from ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  if (!Array.isArray(raw?.keys)) {
+    throw new Error(`${filePath} has no "keys" array`);
+  }
+
+  const names = new Set<string>();
+  const keys = new Set<string>();
+  const entries = raw.keys.map((entry: any, index: number) => {
+    const name = entry?.name;
+    if (typeof name !== "string" || !name) {
+      throw new Error(`API key #${index + 1} has no name`);
+    }
+    if (names.has(name)) {
+      throw new Error(`API key name "${name}" is used more than once`);
+    }
+    names.add(name);
+
+    const key = entry.key;
+    if (typeof key !== "string" || key.length < MIN_KEY_LENGTH) {
+      throw new Error(
+        `API key "${name}": key must be a string of at least ${MIN_KEY_LENGTH} characters`
+      );
+    }
+    if (keys.has(key)) {
+      throw new Error(`API key "${name}" duplicates another key`);
+    }
+    keys.add(key);
+
+    if (!SCOPES.includes(entry.scope)) {
+      throw new Error(
+        `API key "${name}": scope must be one of ${SCOPES.join(", ")}`
+      );
+    }
+
+    const namespaces = entry.namespaces;
+    if (
+      namespaces !== undefined &&
+      (!Array.isArray(namespaces) ||
+        !namespaces.every((ns: unknown) => Number.isInteger(ns)))
+    ) {
+      throw new Error(
+        `API key "${name}": namespaces must be a list of namespace numbers`
+      );
+    }
+
+    return { key, apiKey: { name, scope: entry.scope, namespaces } };
+  });
+
+  if (entries.length === 0) {
+    throw new Error(`${filePath} defines no API keys`);
+  }
+
+  return new ApiKeys(entries);
+}
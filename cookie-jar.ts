@@ -0,0 +1,226 @@
+// Minimal RFC 6265 cookie jar for the MediaWiki session, with optional
+// persistence to a JSON file so a login survives a server restart
+
+import fs from "fs";
+
+interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  // Host-only cookies (no Domain attribute) only match the exact host
+  hostOnly: boolean;
+  secure: boolean;
+  // Epoch milliseconds, or undefined for session cookies
+  expires?: number;
+  createdAt: number;
+}
+
+// Hard cap so a misbehaving server can't grow the jar without limit
+const MAX_COOKIES = 200;
+
+const defaultPath = (url: URL): string => {
+  const path = url.pathname;
+  if (!path.startsWith("/") || path.lastIndexOf("/") === 0) {
+    return "/";
+  }
+  return path.slice(0, path.lastIndexOf("/"));
+};
+
+const domainMatches = (host: string, cookie: StoredCookie): boolean =>
+  cookie.hostOnly
+    ? host === cookie.domain
+    : host === cookie.domain || host.endsWith(`.${cookie.domain}`);
+
+const pathMatches = (requestPath: string, cookiePath: string): boolean =>
+  requestPath === cookiePath ||
+  (requestPath.startsWith(cookiePath) &&
+    (cookiePath.endsWith("/") || requestPath[cookiePath.length] === "/"));
+
+export class CookieJar {
+  private cookies = new Map<string, StoredCookie>();
+
+  constructor(private filePath?: string) {
+    if (filePath) {
+      this.load();
+    }
+  }
+
+  get size(): number {
+    this.removeExpired();
+    return this.cookies.size;
+  }
+
+  // Store the cookies from every Set-Cookie header of a response
+  setCookies(setCookieHeaders: string[], requestUrl: string): void {
+    const url = new URL(requestUrl);
+    let changed = false;
+    for (const header of setCookieHeaders) {
+      changed = this.setCookie(header, url) || changed;
+    }
+    if (changed) {
+      this.enforceLimit();
+      this.save();
+    }
+  }
+
+  // Build the Cookie header value for a request, or undefined if none apply
+  getCookieHeader(requestUrl: string): string | undefined {
+    const url = new URL(requestUrl);
+    const host = url.hostname.toLowerCase();
+    const secure = url.protocol === "https:";
+    const now = Date.now();
+
+    const matching = [...this.cookies.values()]
+      .filter(
+        (cookie) =>
+          (cookie.expires === undefined || cookie.expires > now) &&
+          domainMatches(host, cookie) &&
+          pathMatches(url.pathname || "/", cookie.path) &&
+          (!cookie.secure || secure)
+      )
+      // Longer paths first, then older cookies first (RFC 6265 5.4)
+      .sort(
+        (a, b) => b.path.length - a.path.length || a.createdAt - b.createdAt
+      );
+
+    if (matching.length === 0) {
+      return undefined;
+    }
+    return matching
+      .map((cookie) => `${cookie.name}=${cookie.value}`)
+      .join("; ");
+  }
+
+  clear(): void {
+    this.cookies.clear();
+    this.save();
+  }
+
+  private setCookie(header: string, url: URL): boolean {
+    const [pair, ...attributes] = header.split(";");
+    const separator = pair.indexOf("=");
+    if (separator <= 0) {
+      return false;
+    }
+
+    const name = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+    const host = url.hostname.toLowerCase();
+
+    const cookie: StoredCookie = {
+      name,
+      value,
+      domain: host,
+      path: defaultPath(url),
+      hostOnly: true,
+      secure: false,
+      createdAt: Date.now()
+    };
+
+    let maxAge: number | undefined;
+    for (const attribute of attributes) {
+      const [rawKey, ...rest] = attribute.split("=");
+      const key = rawKey.trim().toLowerCase();
+      const attributeValue = rest.join("=").trim();
+
+      if (key === "expires") {
+        const expires = Date.parse(attributeValue);
+        if (!Number.isNaN(expires)) {
+          cookie.expires = expires;
+        }
+      } else if (key === "max-age") {
+        const seconds = Number(attributeValue);
+        if (Number.isInteger(seconds)) {
+          maxAge = seconds;
+        }
+      } else if (key === "domain" && attributeValue) {
+        const domain = attributeValue.replace(/^\./, "").toLowerCase();
+        // Reject cookies for domains the response didn't come from
+        if (host !== domain && !host.endsWith(`.${domain}`)) {
+          return false;
+        }
+        cookie.domain = domain;
+        cookie.hostOnly = false;
+      } else if (key === "path" && attributeValue.startsWith("/")) {
+        cookie.path = attributeValue;
+      } else if (key === "secure") {
+        cookie.secure = true;
+      }
+    }
+
+    // Max-Age takes precedence over Expires
+    if (maxAge !== undefined) {
+      cookie.expires = Date.now() + maxAge * 1000;
+    }
+
+    const key = `${cookie.domain};${cookie.path};${cookie.name}`;
+    const existing = this.cookies.get(key);
+
+    // An expiry in the past is how servers delete cookies
+    if (cookie.expires !== undefined && cookie.expires <= Date.now()) {
+      return this.cookies.delete(key);
+    }
+
+    if (existing) {
+      cookie.createdAt = existing.createdAt;
+    }
+    this.cookies.set(key, cookie);
+    return true;
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    for (const [key, cookie] of this.cookies) {
+      if (cookie.expires !== undefined && cookie.expires <= now) {
+        this.cookies.delete(key);
+      }
+    }
+  }
+
+  private enforceLimit(): void {
+    this.removeExpired();
+    const oldestFirst = [...this.cookies.entries()].sort(
+      ([, a], [, b]) => a.createdAt - b.createdAt
+    );
+    while (oldestFirst.length > MAX_COOKIES) {
+      const [key] = oldestFirst.shift()!;
+      this.cookies.delete(key);
+    }
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const stored = JSON.parse(
+        fs.readFileSync(this.filePath, "utf8")
+      ) as StoredCookie[];
+      for (const cookie of stored) {
+        this.cookies.set(
+          `${cookie.domain};${cookie.path};${cookie.name}`,
+          cookie
+        );
+      }
+      this.removeExpired();
+    } catch (error) {
+      console.error(`Ignoring unreadable cookie file ${this.filePath}:`, error);
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    this.removeExpired();
+    // Session cookies are kept too: the wiki session should survive a restart
+    fs.writeFileSync(
+      this.filePath,
+      JSON.stringify([...this.cookies.values()], null, 2),
+      { mode: 0o600 }
+    );
+  }
+}
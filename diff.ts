@@ -0,0 +1,205 @@
+// Line-based unified diff (Myers' O(ND) algorithm), used to preview edits
+// before they are written to the wiki
+
+type DiffOpType = "equal" | "delete" | "insert";
+
+interface DiffOp {
+  type: DiffOpType;
+  line: string;
+  // 0-based line positions in the old and new text before this op
+  oldIndex: number;
+  newIndex: number;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+export interface UnifiedDiffOptions {
+  oldLabel?: string;
+  newLabel?: string;
+  context?: number;
+}
+
+const splitLines = (text: string): string[] =>
+  text === "" ? [] : text.replace(/\r\n/g, "\n").split("\n");
+
+// Past this many inserted plus deleted lines the search gives up and the
+// changed block is shown as replaced outright. The trace grows with the square
+// of the edit distance, so rewrites of long pages would otherwise take
+// hundreds of megabytes.
+const MAX_EDIT_DISTANCE = 2000;
+
+// Myers' search for the shortest edit script, or undefined when it is longer
+// than MAX_EDIT_DISTANCE
+function shortestEditScript(
+  a: string[],
+  b: string[]
+): { type: DiffOpType; line: string }[] | undefined {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // For each d, the diagonals -(d + 1)..d + 1 of v as they were before step d
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break search;
+      }
+    }
+  }
+  if (!found) {
+    return undefined;
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const script: { type: DiffOpType; line: string }[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const at = (diagonal: number) => previous[diagonal + d + 1];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      script.push({ type: "equal", line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        script.push({ type: "insert", line: b[y - 1] });
+      } else {
+        script.push({ type: "delete", line: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return script.reverse();
+}
+
+// Shortest edit script between two line arrays
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  // Common prefix and suffix don't need to go through the O(ND) search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const middle = shortestEditScript(oldMiddle, newMiddle) ?? [
+    ...oldMiddle.map((line) => ({ type: "delete" as const, line })),
+    ...newMiddle.map((line) => ({ type: "insert" as const, line }))
+  ];
+
+  // Stitch prefix, middle and suffix back together with line positions
+  const ops: DiffOp[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  const push = (type: DiffOpType, line: string) => {
+    ops.push({ type, line, oldIndex, newIndex });
+    if (type !== "insert") {
+      oldIndex++;
+    }
+    if (type !== "delete") {
+      newIndex++;
+    }
+  };
+
+  a.slice(0, prefix).forEach((line) => push("equal", line));
+  middle.forEach((op) => push(op.type, op.line));
+  a.slice(a.length - suffix).forEach((line) => push("equal", line));
+
+  return ops;
+}
+
+export function diffStats(oldText: string, newText: string): DiffStats {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  return {
+    added: ops.filter((op) => op.type === "insert").length,
+    removed: ops.filter((op) => op.type === "delete").length
+  };
+}
+
+// Render the difference between two texts in unified diff format. Returns an
+// empty string when the texts are identical.
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {}
+): string {
+  const { oldLabel = "a", newLabel = "b", context = 3 } = options;
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+
+  const changes = ops
+    .map((op, index) => (op.type === "equal" ? -1 : index))
+    .filter((index) => index >= 0);
+  if (changes.length === 0) {
+    return "";
+  }
+
+  // Group changes that are close enough to share context lines
+  const groups: [number, number][] = [];
+  for (const index of changes) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= context * 2 + 1) {
+      last[1] = index;
+    } else {
+      groups.push([index, index]);
+    }
+  }
+
+  const lines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const [firstChange, lastChange] of groups) {
+    const start = Math.max(0, firstChange - context);
+    const end = Math.min(ops.length, lastChange + context + 1);
+    const hunk = ops.slice(start, end);
+
+    const oldCount = hunk.filter((op) => op.type !== "insert").length;
+    const newCount = hunk.filter((op) => op.type !== "delete").length;
+    // Unified diff numbers lines from 1, except for empty ranges which point
+    // at the line before them
+    const oldStart = hunk[0].oldIndex + (oldCount > 0 ? 1 : 0);
+    const newStart = hunk[0].newIndex + (newCount > 0 ? 1 : 0);
+
+    lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of hunk) {
+      const marker =
+        op.type === "equal" ? " " : op.type === "delete" ? "-" : "+";
+      lines.push(`${marker}${op.line}`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,1831 @@
+// A small in-memory MediaWiki that answers API requests in-process, so the
+// server (and every tool) can be exercised end to end without a real wiki.
+//
+// It implements the parts of the API this server uses: login (clientlogin
+// and action=login), tokens, the query modules behind the read tools, and
+// the write actions (edit, move, delete, undelete, protect, purge, upload,
+// watch). Rendering is a rough approximation of the real parser. Anything
+// else is answered with an "unsupported" API error.
+
+import { createHash, randomUUID } from "crypto";
+import { Blob } from "node-fetch";
+import { ApiRequest, ApiResponse, ApiTransport } from "./api-transport.js";
+
+export interface FakeAccount {
+  username: string;
+  password: string;
+  // Accepted as "Authorization: Bearer <token>", like an OAuth 2.0 access
+  // token
+  oauthToken?: string;
+  groups?: string[];
+}
+
+interface FakeRevision {
+  revid: number;
+  parentid: number;
+  timestamp: string;
+  user: string;
+  comment: string;
+  content: string;
+  minor: boolean;
+}
+
+interface FakeFile {
+  size: number;
+  sha1: string;
+  user: string;
+  timestamp: string;
+}
+
+interface FakePage {
+  pageid: number;
+  ns: number;
+  title: string;
+  revisions: FakeRevision[];
+  protections: { type: string; level: string; expiry: string }[];
+  file?: FakeFile;
+}
+
+interface FakeChange {
+  type: "edit" | "new" | "log";
+  ns: number;
+  title: string;
+  pageid: number;
+  revid: number;
+  old_revid: number;
+  rcid: number;
+  user: string;
+  timestamp: string;
+  comment: string;
+  oldlen: number;
+  newlen: number;
+  minor: boolean;
+  logtype?: string;
+  logaction?: string;
+}
+
+const NAMESPACES: Record<number, string> = {
+  [-1]: "Special",
+  0: "",
+  1: "Talk",
+  2: "User",
+  3: "User talk",
+  4: "Project",
+  5: "Project talk",
+  6: "File",
+  7: "File talk",
+  8: "MediaWiki",
+  9: "MediaWiki talk",
+  10: "Template",
+  11: "Template talk",
+  12: "Help",
+  13: "Help talk",
+  14: "Category",
+  15: "Category talk"
+};
+
+const GROUP_RIGHTS: Record<string, string[]> = {
+  "*": ["read", "edit", "createpage", "createtalk", "writeapi"],
+  user: [
+    "move",
+    "move-subpages",
+    "movefile",
+    "upload",
+    "reupload",
+    "purge",
+    "minoredit",
+    "editmywatchlist",
+    "viewmywatchlist"
+  ],
+  sysop: ["delete", "undelete", "protect", "suppressredirect", "bot"]
+};
+
+const DEFAULT_PAGES: Record<string, string> = {
+  "Main Page":
+    "Welcome to the '''Fake Wiki'''.\n\nSee [[Wizard]] and [[Category:Wizards]].",
+  Wizard:
+    "{{Infobox wizard\n| name = Wizard\n| affinity = Fire\n}}\nA '''wizard''' casts spells.\n\n== History ==\nWizards came from the [[Forest]].\n\n== Spells ==\nSee [[Spellbook]].\n\n[[Category:Wizards]]",
+  Wizards: "#REDIRECT [[Wizard]]",
+  Spellbook: "The [[Wizard|wizards']] book of spells.\n\n[[Category:Books]]",
+  "Template:Infobox wizard":
+    '{| class="infobox"\n! {{{name}}}\n|-\n| Affinity || {{{affinity}}}\n|}',
+  "Category:Wizards": "All the wizards."
+};
+
+// list=querypage reports its results in an object rather than a plain list
+interface QueryPageOutput {
+  name: string;
+  results: { value: string; ns: number; title: string }[];
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 500;
+
+class FakeApiError extends Error {
+  constructor(
+    public code: string,
+    public info: string
+  ) {
+    super(info);
+  }
+}
+
+const timestamp = (ms: number = Date.now()): string =>
+  new Date(ms).toISOString().replace(/\.\d{3}Z$/, "Z");
+
+const redirectTarget = (content: string): string | undefined =>
+  content.match(/^#REDIRECT\s*\[\[([^\]|#]+)/i)?.[1].trim();
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const anchorFor = (line: string): string => line.replace(/ /g, "_");
+
+interface Heading {
+  level: number;
+  line: string;
+  start: number;
+  end: number;
+}
+
+// Every heading with the offsets of the sections they open
+function findHeadings(text: string): Heading[] {
+  const headings: Heading[] = [];
+  const pattern = /^(={1,6})\s*(.+?)\s*\1\s*$/gm;
+  let match;
+  while ((match = pattern.exec(text))) {
+    headings.push({
+      level: match[1].length,
+      line: match[2],
+      start: match.index,
+      end: text.length
+    });
+  }
+  headings.forEach((heading, i) => {
+    const next = headings
+      .slice(i + 1)
+      .find((candidate) => candidate.level <= heading.level);
+    heading.end = next ? next.start : text.length;
+  });
+  return headings;
+}
+
+// Offsets of section n (0 is the text before the first heading)
+function sectionRange(
+  text: string,
+  section: number
+): { start: number; end: number } | undefined {
+  const headings = findHeadings(text);
+  if (section === 0) {
+    return { start: 0, end: headings[0]?.start ?? text.length };
+  }
+  return headings[section - 1];
+}
+
+function parseLinks(content: string): string[] {
+  return [...content.matchAll(/\[\[([^\]|#]+)/g)].map((match) =>
+    match[1].trim()
+  );
+}
+
+function parseTemplateNames(content: string): string[] {
+  return [...content.matchAll(/\{\{\s*([^{}|#]+?)\s*[|}]/g)]
+    .map((match) => match[1])
+    .filter((name) => !name.startsWith("{") && !name.includes(":"));
+}
+
+// A rough wikitext to HTML conversion: headings, bold/italic, links and
+// paragraphs
+function renderWikitext(text: string): string {
+  const inline = (line: string) =>
+    escapeHtml(line)
+      .replace(/'''(.+?)'''/g, "<b>$1</b>")
+      .replace(/''(.+?)''/g, "<i>$1</i>")
+      .replace(/\[\[Category:[^\]]*\]\]/gi, "")
+      .replace(
+        /\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g,
+        (_, target: string, label?: string) =>
+          `<a href="/wiki/${encodeURIComponent(target.trim().replace(/ /g, "_"))}" title="${target.trim()}">${label ?? target}</a>`
+      );
+
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    const html = inline(paragraph.join("\n")).trim();
+    if (html) {
+      blocks.push(`<p>${html}\n</p>`);
+    }
+    paragraph = [];
+  };
+
+  // Templates are dropped rather than expanded
+  for (const line of text.replace(/\{\{\{?[^}]*\}?\}\}/g, "").split("\n")) {
+    const heading = line.match(/^(={1,6})\s*(.+?)\s*\1\s*$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      blocks.push(
+        `<h${level}><span class="mw-headline" id="${anchorFor(heading[2])}">${inline(heading[2])}</span></h${level}>`
+      );
+    } else if (line.trim()) {
+      paragraph.push(line);
+    } else {
+      flush();
+    }
+  }
+  flush();
+  return blocks.join("\n");
+}
+
+export class FakeMediaWiki {
+  private pages = new Map<string, FakePage>();
+  private deleted = new Map<string, FakePage>();
+  private changes: FakeChange[] = [];
+  private sessions = new Map<string, FakeAccount>();
+  private loginTokens = new Set<string>();
+  private watchlists = new Map<string, Set<string>>();
+  private stash = new Map<string, { filename: string; data: Buffer }>();
+  private nextPageId = 1;
+  private nextRevId = 1;
+  private nextRcId = 1;
+  private nextLogId = 1;
+
+  readonly transport: ApiTransport = (request) => this.handle(request);
+
+  constructor(
+    private accounts: FakeAccount[] = [],
+    pages: Record<string, string> = DEFAULT_PAGES
+  ) {
+    for (const [title, content] of Object.entries(pages)) {
+      this.savePage(this.normalize(title)!, content, "MediaWiki default", "");
+    }
+  }
+
+  private async handle(request: ApiRequest): Promise<ApiResponse> {
+    const params: Record<string, string> = {};
+    const files: Record<string, Blob> = {};
+    for (const [key, value] of Object.entries(request.params)) {
+      if (value instanceof Blob) {
+        files[key] = value;
+      } else if (value !== undefined) {
+        params[key] = String(value);
+      }
+    }
+
+    let sessionId = request.headers["Cookie"]?.match(
+      /(?:^|;\s*)fakewiki_session=([^;]+)/
+    )?.[1];
+    let account = sessionId ? this.sessions.get(sessionId) : undefined;
+    const bearer =
+      request.headers["Authorization"]?.match(/^Bearer (.+)$/)?.[1];
+    if (bearer) {
+      account = this.accounts.find(
+        (candidate) => candidate.oauthToken === bearer
+      );
+      sessionId = `oauth${this.accounts.indexOf(account!)}`;
+    }
+    const context: RequestContext = {
+      params,
+      files,
+      method: request.method,
+      account,
+      sessionId
+    };
+
+    let data: Record<string, any>;
+    try {
+      if (bearer && !account) {
+        throw new FakeApiError(
+          "mwoauth-invalid-authorization",
+          "The authorization headers in your request are not valid: Invalid access token"
+        );
+      }
+      data = await this.dispatch(context);
+    } catch (error) {
+      if (!(error instanceof FakeApiError)) {
+        throw error;
+      }
+      data = { error: { code: error.code, info: error.info } };
+    }
+
+    const headers: Record<string, string[]> = {
+      "content-type": ["application/json; charset=utf-8"]
+    };
+    if (context.setSession) {
+      headers["set-cookie"] = [
+        `fakewiki_session=${context.setSession}; path=/; HttpOnly`
+      ];
+    }
+    if (data.error) {
+      headers["mediawiki-api-error"] = [data.error.code];
+    }
+    return {
+      status: 200,
+      statusText: "OK",
+      headers,
+      body: JSON.stringify(data)
+    };
+  }
+
+  private async dispatch(context: RequestContext): Promise<any> {
+    const { params } = context;
+    switch (params.action) {
+      case "query":
+        return this.query(context);
+      case "clientlogin":
+        return this.clientLogin(context);
+      case "login":
+        return this.botLogin(context);
+      case "parse":
+        return this.parse(params);
+      case "compare":
+        return this.compare(params);
+      case "edit":
+        return this.edit(context);
+      case "move":
+        return this.move(context);
+      case "delete":
+        return this.delete(context);
+      case "undelete":
+        return this.undelete(context);
+      case "protect":
+        return this.protect(context);
+      case "purge":
+        return this.purge(context);
+      case "upload":
+        return this.upload(context);
+      case "watch":
+        return this.watch(context);
+      default:
+        throw new FakeApiError(
+          "badvalue",
+          `Unrecognized value for parameter "action": ${params.action}.`
+        );
+    }
+  }
+
+  // Title handling
+
+  private normalize(
+    raw: string
+  ): { title: string; ns: number; key: string } | undefined {
+    // Like MediaWiki, drop one leading colon (":Template:Foo" is Template:Foo)
+    let text = raw
+      .replace(/_/g, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+      .replace(/^:\s*/, "");
+    if (!text || /[[\]{}|#<>]/.test(text)) {
+      return undefined;
+    }
+
+    let ns = 0;
+    const colon = text.indexOf(":");
+    if (colon > 0) {
+      const prefix = text.slice(0, colon).trim().toLowerCase();
+      const match = Object.entries(NAMESPACES).find(
+        ([, name]) => name && name.toLowerCase() === prefix
+      );
+      if (match) {
+        ns = Number(match[0]);
+        text = text.slice(colon + 1).trim();
+      }
+    }
+    if (!text) {
+      return undefined;
+    }
+
+    text = text.charAt(0).toUpperCase() + text.slice(1);
+    const title = ns === 0 ? text : `${NAMESPACES[ns]}:${text}`;
+    return { title, ns, key: title };
+  }
+
+  private userRights(account?: FakeAccount): {
+    groups: string[];
+    rights: string[];
+  } {
+    const groups = account ? ["*", "user", ...(account.groups ?? [])] : ["*"];
+    const rights = [
+      ...new Set(groups.flatMap((group) => GROUP_RIGHTS[group] ?? []))
+    ];
+    return { groups, rights };
+  }
+
+  // Resolve the titles= parameter (and redirects=) the way the query module
+  // does, returning the output blocks and the pages to report on
+  private resolveTitleParam(params: Record<string, string>): {
+    blocks: Record<string, any>;
+    pages: any[];
+    found: FakePage[];
+  } {
+    const normalized: any[] = [];
+    const redirects: any[] = [];
+    const pages: any[] = [];
+    const found: FakePage[] = [];
+    const seen = new Set<string>();
+
+    if (params.revids) {
+      for (const revid of params.revids.split("|").map(Number)) {
+        const page = this.pageForRevision(revid);
+        if (!page) {
+          throw new FakeApiError(
+            "nosuchrevid",
+            `There is no revision with ID ${revid}.`
+          );
+        }
+        if (!seen.has(page.title)) {
+          seen.add(page.title);
+          found.push(page);
+          pages.push({ pageid: page.pageid, ns: page.ns, title: page.title });
+        }
+      }
+      return { blocks: {}, pages, found };
+    }
+
+    for (const raw of (params.titles ?? "").split("|").filter(Boolean)) {
+      const resolved = this.normalize(raw);
+      if (!resolved) {
+        pages.push({
+          title: raw,
+          invalidreason:
+            "The requested page title is empty or contains invalid characters.",
+          invalid: true
+        });
+        continue;
+      }
+      if (resolved.title !== raw) {
+        normalized.push({ fromencoded: false, from: raw, to: resolved.title });
+      }
+
+      let page = this.pages.get(resolved.key);
+      const target = page && redirectTarget(this.latest(page).content);
+      if (params.redirects !== undefined && target) {
+        const followed = this.normalize(target);
+        if (followed) {
+          redirects.push({ from: resolved.title, to: followed.title });
+          resolved.title = followed.title;
+          resolved.ns = followed.ns;
+          page = this.pages.get(followed.key);
+        }
+      }
+
+      if (seen.has(resolved.title)) {
+        continue;
+      }
+      seen.add(resolved.title);
+      if (page) {
+        found.push(page);
+        pages.push({ pageid: page.pageid, ns: page.ns, title: page.title });
+      } else {
+        pages.push({ ns: resolved.ns, title: resolved.title, missing: true });
+      }
+    }
+
+    const blocks: Record<string, any> = {};
+    if (normalized.length > 0) {
+      blocks.normalized = normalized;
+    }
+    if (redirects.length > 0) {
+      blocks.redirects = redirects;
+    }
+    return { blocks, pages, found };
+  }
+
+  private latest(page: FakePage): FakeRevision {
+    return page.revisions[page.revisions.length - 1];
+  }
+
+  private pageForRevision(revid: number): FakePage | undefined {
+    return [...this.pages.values()].find((page) =>
+      page.revisions.some((revision) => revision.revid === revid)
+    );
+  }
+
+  private requirePage(title: string | undefined): FakePage {
+    const resolved = title ? this.normalize(title) : undefined;
+    if (!resolved) {
+      throw new FakeApiError("invalidtitle", `Bad title "${title ?? ""}".`);
+    }
+    const page = this.pages.get(resolved.key);
+    if (!page) {
+      throw new FakeApiError(
+        "missingtitle",
+        "The page you specified doesn't exist."
+      );
+    }
+    return page;
+  }
+
+  // Paging over an in-memory list, with the offset as continuation
+  private slice<T>(
+    items: T[],
+    params: Record<string, string>,
+    limitParam: string,
+    continueParam: string
+  ): { items: T[]; continue?: Record<string, string> } {
+    const offset = Number(params[continueParam] ?? 0);
+    const limit =
+      params[limitParam] === "max"
+        ? MAX_LIMIT
+        : Math.min(Number(params[limitParam] ?? DEFAULT_LIMIT), MAX_LIMIT);
+    const page = items.slice(offset, offset + limit);
+    return offset + limit < items.length
+      ? {
+          items: page,
+          continue: { [continueParam]: String(offset + limit), continue: "-||" }
+        }
+      : { items: page };
+  }
+
+  private namespaceFilter(value?: string): (ns: number) => boolean {
+    if (!value) {
+      return () => true;
+    }
+    const allowed = new Set(value.split("|").map(Number));
+    return (ns) => allowed.has(ns);
+  }
+
+  // action=query
+
+  private query(context: RequestContext): any {
+    const { params } = context;
+    const result: Record<string, any> = {};
+    const query: Record<string, any> = {};
+    let continuation: Record<string, string> | undefined;
+    const addContinue = (next?: Record<string, string>) => {
+      if (next) {
+        continuation = { ...continuation, ...next };
+      }
+    };
+
+    if (params.curtimestamp !== undefined) {
+      result.curtimestamp = timestamp();
+    }
+
+    for (const meta of (params.meta ?? "").split("|").filter(Boolean)) {
+      if (meta === "tokens") {
+        query.tokens = this.tokens(context);
+      } else if (meta === "userinfo") {
+        query.userinfo = this.userInfo(context);
+      } else if (meta === "siteinfo") {
+        query.general = {
+          mainpage: "Main Page",
+          sitename: "Fake Wiki",
+          generator: "MediaWiki 1.42.1",
+          lang: "en",
+          server: "https://fake.wiki.invalid",
+          articlepath: "/wiki/$1"
+        };
+        query.namespaces = Object.fromEntries(
+          Object.entries(NAMESPACES).map(([id, name]) => [
+            id,
+            { id: Number(id), name, canonical: name || undefined }
+          ])
+        );
+      } else {
+        throw this.unsupported(`meta=${meta}`);
+      }
+    }
+
+    if (params.titles !== undefined || params.revids !== undefined) {
+      const { blocks, pages, found } = this.resolveTitleParam(params);
+      Object.assign(query, blocks);
+      const props = (params.prop ?? "").split("|").filter(Boolean);
+
+      for (const entry of pages) {
+        const page = found.find((candidate) => candidate.title === entry.title);
+        if (!page) {
+          continue;
+        }
+        for (const prop of props) {
+          addContinue(this.pageProp(prop, entry, page, params));
+        }
+      }
+      query.pages = pages;
+    }
+
+    if (params.list) {
+      const { key, items, next } = this.list(context);
+      if (key === "watchlistraw") {
+        // Reported next to "query", like the real module
+        result.watchlistraw = items;
+      } else {
+        query[key] = items;
+      }
+      if (key === "search") {
+        query.searchinfo = { totalhits: next.total };
+      }
+      addContinue(next.continue);
+    }
+
+    if (continuation) {
+      result.continue = continuation;
+    }
+    if (Object.keys(query).length > 0) {
+      result.query = query;
+    }
+    return { batchcomplete: continuation === undefined, ...result };
+  }
+
+  private tokens(context: RequestContext): Record<string, string> {
+    const tokens: Record<string, string> = {};
+    for (const type of (context.params.type ?? "csrf").split("|")) {
+      if (type === "login") {
+        const token = `${randomUUID().replace(/-/g, "")}+\\`;
+        this.loginTokens.add(token);
+        tokens.logintoken = token;
+      } else {
+        tokens[`${type}token`] = this.expectedToken(context);
+      }
+    }
+    return tokens;
+  }
+
+  private expectedToken(context: RequestContext): string {
+    return context.account ? `${context.sessionId}+\\` : "+\\";
+  }
+
+  private userInfo(context: RequestContext): any {
+    const { account, params } = context;
+    const props = (params.uiprop ?? "").split("|");
+    const { groups, rights } = this.userRights(account);
+    const info: Record<string, any> = account
+      ? { id: this.accounts.indexOf(account) + 1, name: account.username }
+      : { id: 0, name: "127.0.0.1", anon: true };
+    if (props.includes("groups")) {
+      info.groups = groups;
+    }
+    if (props.includes("rights")) {
+      info.rights = rights;
+    }
+    return info;
+  }
+
+  // Add one prop module's output to a page entry. Returns the continuation
+  // if the page has more of it.
+  private pageProp(
+    prop: string,
+    entry: any,
+    page: FakePage,
+    params: Record<string, string>
+  ): Record<string, string> | undefined {
+    const current = this.latest(page);
+    switch (prop) {
+      case "info":
+        Object.assign(entry, {
+          contentmodel: "wikitext",
+          touched: current.timestamp,
+          lastrevid: current.revid,
+          length: Buffer.byteLength(current.content),
+          redirect: redirectTarget(current.content) ? true : undefined
+        });
+        return;
+      case "revisions":
+        return this.revisionsProp(entry, page, params);
+      case "categories": {
+        const { items, continue: next } = this.slice(
+          this.categoriesOf(current.content).map((title) => ({
+            ns: 14,
+            title
+          })),
+          params,
+          "cllimit",
+          "clcontinue"
+        );
+        entry.categories = items;
+        return next;
+      }
+      case "links": {
+        const filter = this.namespaceFilter(params.plnamespace);
+        const { items, continue: next } = this.slice(
+          this.linksOf(current.content).filter((link) => filter(link.ns)),
+          params,
+          "pllimit",
+          "plcontinue"
+        );
+        entry.links = items;
+        return next;
+      }
+      case "templates": {
+        const filter = this.namespaceFilter(params.tlnamespace);
+        const { items, continue: next } = this.slice(
+          this.templatesOf(current.content).filter((link) => filter(link.ns)),
+          params,
+          "tllimit",
+          "tlcontinue"
+        );
+        entry.templates = items;
+        return next;
+      }
+      case "imageinfo":
+        if (page.file) {
+          const name = page.title.slice(page.title.indexOf(":") + 1);
+          entry.imageinfo = [
+            {
+              ...page.file,
+              url: `https://fake.wiki.invalid/images/${encodeURIComponent(name.replace(/ /g, "_"))}`,
+              mime: "application/octet-stream",
+              comment: ""
+            }
+          ];
+        }
+        return;
+      case "extracts":
+        // TextExtracts isn't installed
+        return;
+      default:
+        throw this.unsupported(`prop=${prop}`);
+    }
+  }
+
+  private revisionsProp(
+    entry: any,
+    page: FakePage,
+    params: Record<string, string>
+  ): Record<string, string> | undefined {
+    const props = (params.rvprop ?? "ids|timestamp|flags|comment|user").split(
+      "|"
+    );
+    const format = (revision: FakeRevision) => {
+      let content = revision.content;
+      if (params.rvsection !== undefined) {
+        const range = sectionRange(content, Number(params.rvsection));
+        if (!range) {
+          throw new FakeApiError(
+            "nosuchsection",
+            `There is no section ${params.rvsection}.`
+          );
+        }
+        content = content.slice(range.start, range.end).trimEnd();
+      }
+      return {
+        revid: props.includes("ids") ? revision.revid : undefined,
+        parentid: props.includes("ids") ? revision.parentid : undefined,
+        minor: revision.minor,
+        user: props.includes("user") ? revision.user : undefined,
+        timestamp: props.includes("timestamp") ? revision.timestamp : undefined,
+        size: props.includes("size")
+          ? Buffer.byteLength(revision.content)
+          : undefined,
+        comment: props.includes("comment") ? revision.comment : undefined,
+        slots: props.includes("content")
+          ? {
+              main: {
+                contentmodel: "wikitext",
+                contentformat: "text/x-wiki",
+                content
+              }
+            }
+          : undefined
+      };
+    };
+
+    if (params.revids) {
+      const wanted = new Set(params.revids.split("|").map(Number));
+      entry.revisions = page.revisions
+        .filter((revision) => wanted.has(revision.revid))
+        .map(format);
+      return;
+    }
+    if (params.rvlimit === undefined) {
+      entry.revisions = [format(this.latest(page))];
+      return;
+    }
+
+    const { items, continue: next } = this.slice(
+      [...page.revisions].reverse(),
+      params,
+      "rvlimit",
+      "rvcontinue"
+    );
+    entry.revisions = items.map(format);
+    return next;
+  }
+
+  private categoriesOf(content: string): string[] {
+    return this.linksOf(content, true)
+      .filter((link) => link.ns === 14)
+      .map((link) => link.title);
+  }
+
+  // Links as {ns, title}, without category links unless asked for
+  private linksOf(
+    content: string,
+    includeCategories = false
+  ): { ns: number; title: string }[] {
+    const seen = new Set<string>();
+    return parseLinks(content)
+      .filter((link) => includeCategories || !/^category:/i.test(link))
+      .map((link) => this.normalize(link.replace(/^:/, "")))
+      .filter((link): link is NonNullable<typeof link> => {
+        if (!link || seen.has(link.title)) {
+          return false;
+        }
+        seen.add(link.title);
+        return true;
+      })
+      .map(({ ns, title }) => ({ ns, title }));
+  }
+
+  private templatesOf(content: string): { ns: number; title: string }[] {
+    return [...new Set(parseTemplateNames(content))]
+      .map((name) => this.normalize(`Template:${name}`))
+      .filter((link): link is NonNullable<typeof link> => link !== undefined)
+      .map(({ ns, title }) => ({ ns, title }));
+  }
+
+  private list(context: RequestContext): {
+    key: string;
+    items: any[] | QueryPageOutput;
+    next: { continue?: Record<string, string>; total?: number };
+  } {
+    const { params } = context;
+    const pages = [...this.pages.values()].sort((a, b) =>
+      a.title < b.title ? -1 : 1
+    );
+    const pageRef = (page: FakePage) => ({
+      pageid: page.pageid,
+      ns: page.ns,
+      title: page.title
+    });
+
+    switch (params.list) {
+      case "search": {
+        const needle = (params.srsearch ?? "").toLowerCase();
+        const filter = this.namespaceFilter(params.srnamespace ?? "0");
+        const matches = pages.filter(
+          (page) =>
+            filter(page.ns) &&
+            (page.title.toLowerCase().includes(needle) ||
+              (params.srwhat !== "title" &&
+                this.latest(page).content.toLowerCase().includes(needle)))
+        );
+        const { items, continue: next } = this.slice(
+          matches,
+          params,
+          "srlimit",
+          "sroffset"
+        );
+        return {
+          key: "search",
+          items: items.map((page) => {
+            const content = this.latest(page).content;
+            const at = Math.max(content.toLowerCase().indexOf(needle), 0);
+            return {
+              ...pageRef(page),
+              size: Buffer.byteLength(content),
+              wordcount: content.split(/\s+/).filter(Boolean).length,
+              snippet: escapeHtml(content.slice(at, at + 100)),
+              timestamp: this.latest(page).timestamp
+            };
+          }),
+          next: { continue: next, total: matches.length }
+        };
+      }
+      case "prefixsearch": {
+        const prefix = (params.pssearch ?? "").toLowerCase();
+        const filter = this.namespaceFilter(params.psnamespace ?? "0");
+        const { items, continue: next } = this.slice(
+          pages.filter(
+            (page) =>
+              filter(page.ns) && page.title.toLowerCase().startsWith(prefix)
+          ),
+          params,
+          "pslimit",
+          "psoffset"
+        );
+        return {
+          key: "prefixsearch",
+          items: items.map(pageRef),
+          next: { continue: next }
+        };
+      }
+      case "allpages": {
+        const ns = Number(params.apnamespace ?? 0);
+        const { items, continue: next } = this.slice(
+          pages.filter((page) => page.ns === ns),
+          params,
+          "aplimit",
+          "apcontinue"
+        );
+        return {
+          key: "allpages",
+          items: items.map(pageRef),
+          next: { continue: next }
+        };
+      }
+      case "categorymembers": {
+        const category = this.normalize(params.cmtitle ?? "")?.title;
+        const types = (params.cmtype ?? "page|subcat|file").split("|");
+        const typeOf = (page: FakePage) =>
+          page.ns === 14 ? "subcat" : page.ns === 6 ? "file" : "page";
+        let members = pages.filter(
+          (page) =>
+            types.includes(typeOf(page)) &&
+            this.categoriesOf(this.latest(page).content).includes(category!)
+        );
+        if (params.cmsort === "timestamp") {
+          members = members.sort((a, b) =>
+            a.revisions[0].timestamp < b.revisions[0].timestamp ? -1 : 1
+          );
+        }
+        if (params.cmdir === "desc" || params.cmdir === "older") {
+          members.reverse();
+        }
+        const { items, continue: next } = this.slice(
+          members,
+          params,
+          "cmlimit",
+          "cmcontinue"
+        );
+        return {
+          key: "categorymembers",
+          items: items.map((page) => ({
+            ...pageRef(page),
+            type: typeOf(page),
+            sortkeyprefix: "",
+            timestamp: page.revisions[0].timestamp
+          })),
+          next: { continue: next }
+        };
+      }
+      case "backlinks": {
+        const target = this.normalize(params.bltitle ?? "")?.title;
+        const filter = this.namespaceFilter(params.blnamespace);
+        const linking = (title?: string) =>
+          pages.filter(
+            (page) =>
+              filter(page.ns) &&
+              this.linksOf(this.latest(page).content).some(
+                (link) => link.title === title
+              )
+          );
+        const redirects =
+          params.blredirect !== undefined
+            ? pages.filter((page) => {
+                const to = redirectTarget(this.latest(page).content);
+                return to !== undefined && this.normalize(to)?.title === target;
+              })
+            : [];
+        const entries = [
+          ...linking(target)
+            .filter((page) => !redirects.includes(page))
+            .map(pageRef),
+          ...redirects.map((page) => ({
+            ...pageRef(page),
+            redirect: true,
+            redirlinks: linking(page.title).map(pageRef)
+          }))
+        ];
+        const { items, continue: next } = this.slice(
+          entries,
+          params,
+          "bllimit",
+          "blcontinue"
+        );
+        return { key: "backlinks", items, next: { continue: next } };
+      }
+      case "embeddedin": {
+        const target = this.normalize(params.eititle ?? "")?.title;
+        const filter = this.namespaceFilter(params.einamespace);
+        const { items, continue: next } = this.slice(
+          pages.filter(
+            (page) =>
+              filter(page.ns) &&
+              this.templatesOf(this.latest(page).content).some(
+                (template) => template.title === target
+              )
+          ),
+          params,
+          "eilimit",
+          "eicontinue"
+        );
+        return {
+          key: "embeddedin",
+          items: items.map(pageRef),
+          next: { continue: next }
+        };
+      }
+      case "querypage": {
+        const results = pages.filter((page) => {
+          if (page.ns !== 0) {
+            return false;
+          }
+          const content = this.latest(page).content;
+          if (params.qppage === "Deadendpages") {
+            return this.linksOf(content).length === 0;
+          }
+          if (params.qppage === "Lonelypages") {
+            return !pages.some((other) =>
+              this.linksOf(this.latest(other).content).some(
+                (link) => link.title === page.title
+              )
+            );
+          }
+          throw this.unsupported(`qppage=${params.qppage}`);
+        });
+        const { items, continue: next } = this.slice(
+          results,
+          params,
+          "qplimit",
+          "qpoffset"
+        );
+        return {
+          key: "querypage",
+          items: {
+            name: params.qppage,
+            results: items.map((page) => ({
+              value: "0",
+              ns: page.ns,
+              title: page.title
+            }))
+          },
+          next: { continue: next }
+        };
+      }
+      case "recentchanges":
+        return this.changeList(
+          params,
+          "rc",
+          "recentchanges",
+          (change) =>
+            (params.rctype ?? "edit|new|log")
+              .split("|")
+              .includes(change.type) &&
+            (params.rcuser === undefined || change.user === params.rcuser) &&
+            change.user !== params.rcexcludeuser
+        );
+      case "usercontribs": {
+        const users = (params.ucuser ?? "").split("|");
+        const list = this.changeList(
+          params,
+          "uc",
+          "usercontribs",
+          (change) => change.type !== "log" && users.includes(change.user)
+        );
+        list.items = list.items.map((change: FakeChange) => ({
+          user: change.user,
+          pageid: change.pageid,
+          revid: change.revid,
+          parentid: change.old_revid,
+          ns: change.ns,
+          title: change.title,
+          timestamp: change.timestamp,
+          comment: change.comment,
+          size: change.newlen,
+          sizediff: change.newlen - change.oldlen,
+          new: change.type === "new",
+          minor: change.minor
+        }));
+        return list;
+      }
+      case "watchlist": {
+        const watched = this.watchedBy(context);
+        return this.changeList(params, "wl", "watchlist", (change) =>
+          watched.has(change.title)
+        );
+      }
+      case "watchlistraw": {
+        const filter = this.namespaceFilter(params.wrnamespace);
+        const titles = [...this.watchedBy(context)]
+          .sort()
+          .map((title) => this.normalize(title)!)
+          .filter((title) => filter(title.ns));
+        const { items, continue: next } = this.slice(
+          titles.map(({ ns, title }) => ({ ns, title })),
+          params,
+          "wrlimit",
+          "wrcontinue"
+        );
+        return { key: "watchlistraw", items, next: { continue: next } };
+      }
+      default:
+        throw this.unsupported(`list=${params.list}`);
+    }
+  }
+
+  // recentchanges, usercontribs and watchlist share the change log, time
+  // window and bot/minor filters
+  private changeList(
+    params: Record<string, string>,
+    prefix: string,
+    key: string,
+    include: (change: FakeChange) => boolean
+  ): {
+    key: string;
+    items: any[];
+    next: { continue?: Record<string, string> };
+  } {
+    const p = (name: string) => params[`${prefix}${name}`];
+    const older = (p("dir") ?? "older") === "older";
+    const filter = this.namespaceFilter(p("namespace"));
+    const show = (p("show") ?? "").split("|").filter(Boolean);
+    // With dir=older, start is the newer end of the window
+    const [from, to] = older ? [p("end"), p("start")] : [p("start"), p("end")];
+
+    const changes = this.changes
+      .filter(
+        (change) =>
+          include(change) &&
+          filter(change.ns) &&
+          (from === undefined || change.timestamp >= from) &&
+          (to === undefined || change.timestamp <= to) &&
+          show.every((flag) => {
+            const negated = flag.startsWith("!");
+            const name = flag.replace(/^!/, "");
+            const value =
+              name === "minor"
+                ? change.minor
+                : name === "bot"
+                  ? this.isBot(change.user)
+                  : true;
+            return negated ? !value : value;
+          })
+      )
+      .map((change) => ({
+        ...change,
+        bot: this.isBot(change.user),
+        new: change.type === "new"
+      }));
+    if (older) {
+      changes.reverse();
+    }
+
+    const { items, continue: next } = this.slice(
+      changes,
+      params,
+      `${prefix}limit`,
+      `${prefix}continue`
+    );
+    return { key, items, next: { continue: next } };
+  }
+
+  private isBot(user: string): boolean {
+    const account = this.accounts.find(
+      (candidate) => candidate.username === user
+    );
+    return account?.groups?.includes("bot") ?? false;
+  }
+
+  private watchedBy(context: RequestContext): Set<string> {
+    const account = this.requireUser(context);
+    let watched = this.watchlists.get(account.username);
+    if (!watched) {
+      watched = new Set();
+      this.watchlists.set(account.username, watched);
+    }
+    return watched;
+  }
+
+  // Login
+
+  private findAccount(
+    username?: string,
+    password?: string,
+    botPassword = false
+  ): FakeAccount | undefined {
+    // BotPassword names (User@App) log in as the user, through action=login
+    // only
+    if (username?.includes("@") !== botPassword) {
+      return undefined;
+    }
+    const name = username?.split("@")[0];
+    return this.accounts.find(
+      (account) => account.username === name && account.password === password
+    );
+  }
+
+  private startSession(context: RequestContext, account: FakeAccount): void {
+    const sessionId = randomUUID().replace(/-/g, "");
+    this.sessions.set(sessionId, account);
+    context.setSession = sessionId;
+  }
+
+  private checkLoginToken(token?: string): void {
+    if (!token || !this.loginTokens.delete(token)) {
+      throw new FakeApiError("badtoken", "Invalid CSRF token.");
+    }
+  }
+
+  private clientLogin(context: RequestContext): any {
+    const { params } = context;
+    this.checkLoginToken(params.logintoken);
+    const account = this.findAccount(params.username, params.password);
+    if (!account) {
+      return {
+        clientlogin: {
+          status: "FAIL",
+          message: "Incorrect username or password entered. Please try again.",
+          messagecode: "wrongpassword"
+        }
+      };
+    }
+    this.startSession(context, account);
+    return { clientlogin: { status: "PASS", username: account.username } };
+  }
+
+  private botLogin(context: RequestContext): any {
+    const { params } = context;
+    this.checkLoginToken(params.lgtoken);
+    const account = this.findAccount(params.lgname, params.lgpassword, true);
+    if (!account) {
+      return {
+        login: {
+          result: "Failed",
+          reason: "Incorrect username or password entered. Please try again."
+        }
+      };
+    }
+    this.startSession(context, account);
+    return {
+      login: {
+        result: "Success",
+        lguserid: this.accounts.indexOf(account) + 1,
+        lgusername: account.username
+      }
+    };
+  }
+
+  // Writes
+
+  private requireUser(context: RequestContext): FakeAccount {
+    if (!context.account) {
+      throw new FakeApiError(
+        "notloggedin",
+        "Please log in to view or change your watchlist."
+      );
+    }
+    return context.account;
+  }
+
+  // Common checks for every write: POST, a valid token, assert=user and the
+  // rights the action needs
+  private checkWrite(context: RequestContext, rights: string[] = []): string {
+    const { params, account } = context;
+    if (context.method !== "POST") {
+      throw new FakeApiError(
+        "mustbeposted",
+        `The "${params.action}" module requires a POST request.`
+      );
+    }
+    if (params.token !== this.expectedToken(context)) {
+      throw new FakeApiError("badtoken", "Invalid CSRF token.");
+    }
+    if (params.assert === "user" && !account) {
+      throw new FakeApiError(
+        "assertuserfailed",
+        "You are no longer logged in, so the action could not be completed."
+      );
+    }
+    const granted = this.userRights(account).rights;
+    const missing = rights.filter((right) => !granted.includes(right));
+    if (missing.length > 0) {
+      throw new FakeApiError(
+        "permissiondenied",
+        `You don't have permission to ${params.action}: missing ${missing.join(", ")}.`
+      );
+    }
+    return account?.username ?? "127.0.0.1";
+  }
+
+  private savePage(
+    target: { title: string; ns: number; key: string },
+    content: string,
+    user: string,
+    comment: string,
+    minor = false
+  ): { page: FakePage; revision: FakeRevision; previous?: FakeRevision } {
+    let page = this.pages.get(target.key);
+    const previous = page && this.latest(page);
+    if (!page) {
+      page = {
+        pageid: this.nextPageId++,
+        ns: target.ns,
+        title: target.title,
+        revisions: [],
+        protections: []
+      };
+      this.pages.set(target.key, page);
+    }
+
+    const revision: FakeRevision = {
+      revid: this.nextRevId++,
+      parentid: previous?.revid ?? 0,
+      timestamp: timestamp(),
+      user,
+      comment,
+      content,
+      minor
+    };
+    page.revisions.push(revision);
+    this.changes.push({
+      type: previous ? "edit" : "new",
+      ns: page.ns,
+      title: page.title,
+      pageid: page.pageid,
+      revid: revision.revid,
+      old_revid: previous?.revid ?? 0,
+      rcid: this.nextRcId++,
+      user,
+      timestamp: revision.timestamp,
+      comment,
+      oldlen: previous ? Buffer.byteLength(previous.content) : 0,
+      newlen: Buffer.byteLength(content),
+      minor
+    });
+    return { page, revision, previous };
+  }
+
+  private logChange(
+    page: { ns: number; title: string; pageid: number },
+    user: string,
+    logtype: string,
+    logaction: string,
+    comment: string
+  ): number {
+    const logid = this.nextLogId++;
+    this.changes.push({
+      type: "log",
+      ns: page.ns,
+      title: page.title,
+      pageid: page.pageid,
+      revid: 0,
+      old_revid: 0,
+      rcid: this.nextRcId++,
+      user,
+      timestamp: timestamp(),
+      comment,
+      oldlen: 0,
+      newlen: 0,
+      minor: false,
+      logtype,
+      logaction
+    });
+    return logid;
+  }
+
+  private edit(context: RequestContext): any {
+    const { params } = context;
+    const user = this.checkWrite(context, ["edit"]);
+    const target = this.normalize(params.title ?? "");
+    if (!target) {
+      throw new FakeApiError(
+        "invalidtitle",
+        `Bad title "${params.title ?? ""}".`
+      );
+    }
+    const page = this.pages.get(target.key);
+    const current = page && this.latest(page);
+
+    if (page && params.createonly !== undefined) {
+      throw new FakeApiError(
+        "articleexists",
+        "The article you tried to create has been created already."
+      );
+    }
+    if (!page && (params.nocreate !== undefined || params.undo !== undefined)) {
+      throw new FakeApiError(
+        "missingtitle",
+        "The page you specified doesn't exist."
+      );
+    }
+    if (
+      current &&
+      params.baserevid !== undefined &&
+      Number(params.baserevid) !== current.revid
+    ) {
+      throw new FakeApiError("editconflict", "Edit conflict.");
+    }
+
+    let content: string;
+    let comment = params.summary ?? "";
+    if (params.undo !== undefined) {
+      const undo = page!.revisions.find(
+        (revision) => revision.revid === Number(params.undo)
+      );
+      const after = page!.revisions.find(
+        (revision) =>
+          revision.revid === Number(params.undoafter ?? undo?.parentid)
+      );
+      // Only undoing up to the current revision is supported
+      if (!undo || !after || undo.revid !== current!.revid) {
+        throw new FakeApiError(
+          "undofailure",
+          "The edit could not be undone due to conflicting intermediate edits."
+        );
+      }
+      content = after.content;
+      comment ||= `Undo revision ${undo.revid} by [[Special:Contributions/${undo.user}|${undo.user}]]`;
+    } else if (params.section === "new") {
+      const heading = params.sectiontitle ?? params.summary ?? "";
+      content =
+        `${current?.content ?? ""}\n\n== ${heading} ==\n\n${params.text ?? ""}`.trimStart();
+      comment ||= `/* ${heading} */ new section`;
+    } else if (params.section !== undefined) {
+      const base = current?.content ?? "";
+      const range = sectionRange(base, Number(params.section));
+      if (!range) {
+        throw new FakeApiError(
+          "nosuchsection",
+          `There is no section ${params.section}.`
+        );
+      }
+      const separator = range.end < base.length ? "\n\n" : "";
+      content =
+        base.slice(0, range.start) +
+        (params.text ?? "").trimEnd() +
+        separator +
+        base.slice(range.end);
+    } else if (params.text !== undefined) {
+      content = params.text;
+    } else {
+      content =
+        (params.prependtext ?? "") +
+        (current?.content ?? "") +
+        (params.appendtext ?? "");
+    }
+
+    if (current && content === current.content) {
+      return {
+        edit: {
+          result: "Success",
+          pageid: page!.pageid,
+          title: page!.title,
+          contentmodel: "wikitext",
+          nochange: true
+        }
+      };
+    }
+
+    const saved = this.savePage(
+      target,
+      content,
+      user,
+      comment,
+      params.minor !== undefined
+    );
+    return {
+      edit: {
+        new: saved.previous ? undefined : true,
+        result: "Success",
+        pageid: saved.page.pageid,
+        title: saved.page.title,
+        contentmodel: "wikitext",
+        oldrevid: saved.previous?.revid ?? 0,
+        newrevid: saved.revision.revid,
+        newtimestamp: saved.revision.timestamp
+      }
+    };
+  }
+
+  private move(context: RequestContext): any {
+    const { params } = context;
+    const noRedirect = params.noredirect !== undefined;
+    const user = this.checkWrite(
+      context,
+      noRedirect ? ["move", "suppressredirect"] : ["move"]
+    );
+    const page = this.requirePage(params.from);
+    const to = this.normalize(params.to ?? "");
+    if (!to) {
+      throw new FakeApiError("invalidtitle", `Bad title "${params.to ?? ""}".`);
+    }
+    if (this.pages.has(to.key)) {
+      throw new FakeApiError(
+        "articleexists",
+        "A page of that name already exists."
+      );
+    }
+    const from = page.title;
+    this.pages.delete(from);
+    page.title = to.title;
+    page.ns = to.ns;
+    this.pages.set(to.key, page);
+    this.logChange(page, user, "move", "move", params.reason ?? "");
+    if (!noRedirect) {
+      this.savePage(
+        this.normalize(from)!,
+        `#REDIRECT [[${to.title}]]`,
+        user,
+        `${user} moved page [[${from}]] to [[${to.title}]]`
+      );
+    }
+    return {
+      move: {
+        from,
+        to: to.title,
+        reason: params.reason ?? "",
+        redirectcreated: !noRedirect
+      }
+    };
+  }
+
+  private delete(context: RequestContext): any {
+    const { params } = context;
+    const user = this.checkWrite(context, ["delete"]);
+    const page = this.requirePage(params.title);
+    this.pages.delete(page.title);
+    this.deleted.set(page.title, page);
+    const logid = this.logChange(
+      page,
+      user,
+      "delete",
+      "delete",
+      params.reason ?? ""
+    );
+    return {
+      delete: { title: page.title, reason: params.reason ?? "", logid }
+    };
+  }
+
+  private undelete(context: RequestContext): any {
+    const { params } = context;
+    const user = this.checkWrite(context, ["undelete"]);
+    const title = this.normalize(params.title ?? "")?.title ?? "";
+    const page = this.deleted.get(title);
+    if (!page || this.pages.has(title)) {
+      throw new FakeApiError(
+        "cantundelete",
+        "Couldn't undelete: the requested revisions may not exist, or may have been undeleted already."
+      );
+    }
+    this.deleted.delete(title);
+    this.pages.set(title, page);
+    this.logChange(page, user, "delete", "restore", params.reason ?? "");
+    return {
+      undelete: {
+        title,
+        revisions: page.revisions.length,
+        fileversions: 0,
+        reason: params.reason ?? ""
+      }
+    };
+  }
+
+  private protect(context: RequestContext): any {
+    const { params } = context;
+    const user = this.checkWrite(context, ["protect"]);
+    const page = this.requirePage(params.title);
+    const expiries = (params.expiry ?? "infinite").split("|");
+    const protections = (params.protections ?? "")
+      .split("|")
+      .filter(Boolean)
+      .map((entry, i) => {
+        const [type, level] = entry.split("=");
+        return { type, level, expiry: expiries[i] ?? expiries[0] };
+      });
+    page.protections = [
+      ...page.protections.filter(
+        (existing) => !protections.some((p) => p.type === existing.type)
+      ),
+      ...protections.filter((p) => p.level !== "all")
+    ];
+    this.logChange(page, user, "protect", "protect", params.reason ?? "");
+    return {
+      protect: {
+        title: page.title,
+        reason: params.reason ?? "",
+        protections: protections.map(({ type, level, expiry }) => ({
+          [type]: level === "all" ? "" : level,
+          expiry
+        }))
+      }
+    };
+  }
+
+  private purge(context: RequestContext): any {
+    const { params } = context;
+    this.checkWrite(context, ["purge"]);
+    return {
+      purge: (params.titles ?? "")
+        .split("|")
+        .filter(Boolean)
+        .map((raw) => {
+          const target = this.normalize(raw);
+          if (!target) {
+            return { title: raw, invalid: true };
+          }
+          return this.pages.has(target.key)
+            ? { ns: target.ns, title: target.title, purged: true }
+            : { ns: target.ns, title: target.title, missing: true };
+        })
+    };
+  }
+
+  private async upload(context: RequestContext): Promise<any> {
+    const { params, files } = context;
+    const user = this.checkWrite(context, ["upload"]);
+    const target = this.normalize(`File:${params.filename ?? ""}`);
+    if (!target) {
+      throw new FakeApiError(
+        "invalidtitle",
+        `Bad title "${params.filename ?? ""}".`
+      );
+    }
+
+    // Chunked upload into the stash
+    if (files.chunk) {
+      const chunk = Buffer.from(await files.chunk.arrayBuffer());
+      const key = params.filekey ?? `${randomUUID()}.stash`;
+      const stashed = this.stash.get(key) ?? {
+        filename: params.filename ?? "",
+        data: Buffer.alloc(0)
+      };
+      if (Number(params.offset ?? 0) !== stashed.data.length) {
+        throw new FakeApiError(
+          "stashfailed",
+          "Chunk offset doesn't match the uploaded size."
+        );
+      }
+      stashed.data = Buffer.concat([stashed.data, chunk]);
+      this.stash.set(key, stashed);
+      const complete = stashed.data.length >= Number(params.filesize ?? 0);
+      return {
+        upload: {
+          result: complete ? "Success" : "Continue",
+          filekey: key,
+          offset: complete ? undefined : stashed.data.length
+        }
+      };
+    }
+
+    let data: Buffer;
+    let filekey = params.filekey;
+    if (files.file) {
+      data = Buffer.from(await files.file.arrayBuffer());
+    } else if (filekey && this.stash.has(filekey)) {
+      data = this.stash.get(filekey)!.data;
+    } else {
+      throw new FakeApiError(
+        "missingparam",
+        "One of the parameters filekey, file, url is required."
+      );
+    }
+
+    const existing = this.pages.get(target.key);
+    if (existing && params.ignorewarnings === undefined) {
+      if (!filekey) {
+        filekey = `${randomUUID()}.stash`;
+        this.stash.set(filekey, { filename: params.filename ?? "", data });
+      }
+      return {
+        upload: {
+          result: "Warning",
+          warnings: { exists: target.title.slice("File:".length) },
+          filekey
+        }
+      };
+    }
+
+    const { page } = this.savePage(
+      target,
+      params.text ?? (existing ? this.latest(existing).content : ""),
+      user,
+      params.comment ?? ""
+    );
+    page.file = {
+      size: data.length,
+      sha1: createHash("sha1").update(data).digest("hex"),
+      user,
+      timestamp: timestamp()
+    };
+    if (filekey) {
+      this.stash.delete(filekey);
+    }
+    this.logChange(
+      page,
+      user,
+      "upload",
+      existing ? "overwrite" : "upload",
+      params.comment ?? ""
+    );
+    return {
+      upload: {
+        result: "Success",
+        filename: target.title.slice("File:".length),
+        imageinfo: { size: page.file.size, sha1: page.file.sha1 }
+      }
+    };
+  }
+
+  private watch(context: RequestContext): any {
+    const { params } = context;
+    this.checkWrite(context, ["editmywatchlist"]);
+    const watched = this.watchedBy(context);
+    return {
+      watch: (params.titles ?? "")
+        .split("|")
+        .filter(Boolean)
+        .map((raw) => {
+          const title = this.normalize(raw)?.title ?? raw;
+          if (params.unwatch !== undefined) {
+            watched.delete(title);
+            return { title, unwatched: true };
+          }
+          watched.add(title);
+          return { title, watched: true, expiry: params.expiry };
+        })
+    };
+  }
+
+  // Other actions
+
+  private parse(params: Record<string, string>): any {
+    let title: string;
+    let text: string;
+    let revid: number | undefined;
+    let pageid: number | undefined;
+
+    if (params.page !== undefined) {
+      let page = this.requirePage(params.page);
+      const target =
+        params.redirects !== undefined &&
+        redirectTarget(this.latest(page).content);
+      if (target) {
+        page = this.requirePage(target);
+      }
+      title = page.title;
+      text = this.latest(page).content;
+      revid = this.latest(page).revid;
+      pageid = page.pageid;
+    } else {
+      title = this.normalize(params.title ?? "API")?.title ?? "API";
+      text = params.text ?? "";
+    }
+
+    const props = (params.prop ?? "text").split("|");
+    const result: Record<string, any> = { title, pageid, revid };
+    if (props.includes("text")) {
+      result.text = `<div class="mw-parser-output">${renderWikitext(text)}</div>`;
+    }
+    if (props.includes("displaytitle")) {
+      result.displaytitle = title;
+    }
+    if (props.includes("sections")) {
+      result.sections = findHeadings(text).map((heading, i) => ({
+        toclevel: heading.level - 1,
+        level: String(heading.level),
+        line: heading.line,
+        number: String(i + 1),
+        index: String(i + 1),
+        fromtitle: title,
+        byteoffset: Buffer.byteLength(text.slice(0, heading.start)),
+        anchor: anchorFor(heading.line)
+      }));
+    }
+    return { parse: result };
+  }
+
+  private compare(params: Record<string, string>): any {
+    const revision = (revid: number) => {
+      const page = this.pageForRevision(revid);
+      if (!page) {
+        throw new FakeApiError(
+          "nosuchrevid",
+          `There is no revision with ID ${revid}.`
+        );
+      }
+      return {
+        page,
+        revision: page.revisions.find((candidate) => candidate.revid === revid)!
+      };
+    };
+
+    const from = revision(Number(params.fromrev));
+    const to =
+      params.torelative === "cur"
+        ? { page: from.page, revision: this.latest(from.page) }
+        : revision(Number(params.torev));
+    const side = (
+      prefix: string,
+      { page, revision }: { page: FakePage; revision: FakeRevision }
+    ) => ({
+      [`${prefix}id`]: page.pageid,
+      [`${prefix}revid`]: revision.revid,
+      [`${prefix}ns`]: page.ns,
+      [`${prefix}title`]: page.title,
+      [`${prefix}user`]: revision.user,
+      [`${prefix}comment`]: revision.comment,
+      [`${prefix}timestamp`]: revision.timestamp,
+      [`${prefix}size`]: Buffer.byteLength(revision.content)
+    });
+    return { compare: { ...side("from", from), ...side("to", to) } };
+  }
+
+  private unsupported(what: string): FakeApiError {
+    return new FakeApiError(
+      "unsupported",
+      `${what} is not supported by the fake wiki.`
+    );
+  }
+}
+
+interface RequestContext {
+  params: Record<string, string>;
+  files: Record<string, Blob>;
+  method: "GET" | "POST";
+  account?: FakeAccount;
+  sessionId?: string;
+  // Session to hand out with the response, after a login
+  setSession?: string;
+}
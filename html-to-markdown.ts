@@ -0,0 +1,524 @@
+// Converts the HTML produced by MediaWiki's parser into Markdown (or plain
+// text) that an LLM can read without wading through markup. Handles the
+// subset of HTML the parser emits: headings, paragraphs, lists, definition
+// lists, tables (including infoboxes), links, images and inline formatting.
+
+interface TextNode {
+  type: "text";
+  text: string;
+}
+
+interface ElementNode {
+  type: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = TextNode | ElementNode;
+
+export interface HtmlConversionOptions {
+  // Used to resolve relative links and image sources, e.g. the wiki's API URL
+  baseUrl?: string;
+}
+
+interface RenderContext extends HtmlConversionOptions {
+  plain: boolean;
+  inPre: boolean;
+}
+
+const VOID_ELEMENTS = new Set([
+  "area",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr"
+]);
+
+const SKIPPED_ELEMENTS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "link",
+  "meta"
+]);
+
+// Parser furniture that means nothing outside a browser
+const SKIPPED_CLASSES = ["mw-editsection", "toc", "mw-empty-elt", "noprint"];
+
+const BLOCK_ELEMENTS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "center",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul"
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  middot: "·",
+  bull: "•",
+  times: "×",
+  copy: "©",
+  reg: "®",
+  deg: "°"
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === "#") {
+      const codePoint =
+        body[1] === "x" || body[1] === "X"
+          ? parseInt(body.slice(2), 16)
+          : parseInt(body.slice(1), 10);
+      return Number.isNaN(codePoint) || codePoint > 0x10ffff
+        ? entity
+        : String.fromCodePoint(codePoint);
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  const pattern =
+    /([^\s=\/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match;
+  while ((match = pattern.exec(source))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(
+      match[2] ?? match[3] ?? match[4] ?? ""
+    );
+  }
+  return attrs;
+};
+
+// Tolerant HTML parser: unknown or stray closing tags are ignored, and a
+// closing tag closes every element opened inside it
+function parseHtml(html: string): HtmlNode[] {
+  const root: ElementNode = {
+    type: "element",
+    tag: "#root",
+    attrs: {},
+    children: []
+  };
+  const stack: ElementNode[] = [root];
+  const pattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>/g;
+  let lastIndex = 0;
+  let match;
+
+  const addText = (text: string) => {
+    if (text) {
+      stack[stack.length - 1].children.push({
+        type: "text",
+        text: decodeEntities(text)
+      });
+    }
+  };
+
+  while ((match = pattern.exec(html))) {
+    addText(html.slice(lastIndex, match.index));
+    lastIndex = pattern.lastIndex;
+
+    if (match[0].startsWith("<!--")) {
+      continue;
+    }
+
+    const [, closing, rawTag, rawAttrs] = match;
+    const tag = rawTag.toLowerCase();
+
+    if (closing) {
+      const openIndex = stack.map((node) => node.tag).lastIndexOf(tag);
+      if (openIndex > 0) {
+        stack.length = openIndex;
+      }
+      continue;
+    }
+
+    const element: ElementNode = {
+      type: "element",
+      tag,
+      attrs: parseAttributes(rawAttrs),
+      children: []
+    };
+    stack[stack.length - 1].children.push(element);
+
+    if (!VOID_ELEMENTS.has(tag) && !rawAttrs.trim().endsWith("/")) {
+      stack.push(element);
+    }
+
+    // Raw text elements: everything up to the closing tag is content
+    if (tag === "script" || tag === "style") {
+      const end = html.toLowerCase().indexOf(`</${tag}`, lastIndex);
+      const stop = end === -1 ? html.length : end;
+      element.children.push({
+        type: "text",
+        text: html.slice(lastIndex, stop)
+      });
+      pattern.lastIndex = lastIndex = stop;
+    }
+  }
+  addText(html.slice(lastIndex));
+
+  return root.children;
+}
+
+const isSkipped = (node: ElementNode): boolean => {
+  if (SKIPPED_ELEMENTS.has(node.tag)) {
+    return true;
+  }
+  const classes = (node.attrs.class ?? "").split(/\s+/);
+  if (SKIPPED_CLASSES.some((skipped) => classes.includes(skipped))) {
+    return true;
+  }
+  return /display\s*:\s*none/i.test(node.attrs.style ?? "");
+};
+
+const resolveUrl = (href: string, baseUrl?: string): string => {
+  if (!baseUrl) {
+    return href;
+  }
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+};
+
+const escapeMarkdown = (text: string): string =>
+  text.replace(/([\\`*_\[\]])/g, "\\$1");
+
+const childElements = (node: ElementNode, tags: string[]): ElementNode[] =>
+  node.children.filter(
+    (child): child is ElementNode =>
+      child.type === "element" && tags.includes(child.tag)
+  );
+
+// Render a run of nodes as inline text (whitespace collapsed)
+function renderInline(nodes: HtmlNode[], ctx: RenderContext): string {
+  return nodes.map((node) => renderInlineNode(node, ctx)).join("");
+}
+
+function renderInlineNode(node: HtmlNode, ctx: RenderContext): string {
+  if (node.type === "text") {
+    if (ctx.inPre) {
+      return node.text;
+    }
+    const text = node.text.replace(/\s+/g, " ");
+    return ctx.plain ? text : escapeMarkdown(text);
+  }
+
+  if (isSkipped(node)) {
+    return "";
+  }
+
+  const inner = () => renderInline(node.children, ctx);
+
+  switch (node.tag) {
+    case "br":
+      return "\n";
+    case "b":
+    case "strong": {
+      const text = inner();
+      return ctx.plain || !text.trim() ? text : wrapInline(text, "**");
+    }
+    case "i":
+    case "em": {
+      const text = inner();
+      return ctx.plain || !text.trim() ? text : wrapInline(text, "*");
+    }
+    case "s":
+    case "del":
+    case "strike": {
+      const text = inner();
+      return ctx.plain || !text.trim() ? text : wrapInline(text, "~~");
+    }
+    case "code":
+    case "kbd":
+    case "tt": {
+      const text = renderInline(node.children, { ...ctx, plain: true });
+      return ctx.plain ? text : `\`${text.replace(/`/g, "'")}\``;
+    }
+    case "a":
+      return renderLink(node, ctx);
+    case "img":
+      return renderImage(node, ctx);
+    default:
+      // Block content inside an inline context (e.g. a list in a table cell)
+      if (BLOCK_ELEMENTS.has(node.tag)) {
+        const text = renderBlocks([node], ctx).trim();
+        return text ? ` ${text.replace(/\n+/g, " ")} ` : "";
+      }
+      return inner();
+  }
+}
+
+// Keep emphasis markers tight against the text, as Markdown requires
+const wrapInline = (text: string, marker: string): string => {
+  const leading = text.match(/^\s*/)![0];
+  const trailing = text.match(/\s*$/)![0];
+  return `${leading}${marker}${text.trim()}${marker}${trailing}`;
+};
+
+function renderLink(node: ElementNode, ctx: RenderContext): string {
+  const text = renderInline(node.children, ctx);
+  const href = node.attrs.href;
+
+  // Image links and in-page anchors (footnote markers etc.) keep just their content
+  const containsImage = node.children.some(
+    (child) => child.type === "element" && child.tag === "img"
+  );
+  if (
+    ctx.plain ||
+    !href ||
+    href.startsWith("#") ||
+    containsImage ||
+    !text.trim()
+  ) {
+    return text;
+  }
+
+  const url = resolveUrl(href, ctx.baseUrl)
+    .replace(/\)/g, "%29")
+    .replace(/ /g, "%20");
+  return `[${text.trim()}](${url})`;
+}
+
+function renderImage(node: ElementNode, ctx: RenderContext): string {
+  const alt = node.attrs.alt ?? "";
+  if (ctx.plain) {
+    return alt;
+  }
+  const src = node.attrs.src;
+  if (!src) {
+    return "";
+  }
+  return `![${escapeMarkdown(alt)}](${resolveUrl(src, ctx.baseUrl).replace(/ /g, "%20")})`;
+}
+
+// Render a run of nodes as blocks separated by blank lines
+function renderBlocks(nodes: HtmlNode[], ctx: RenderContext): string {
+  const blocks: string[] = [];
+  let inlineRun: HtmlNode[] = [];
+
+  const flushInline = () => {
+    const text = renderInline(inlineRun, ctx)
+      .split("\n")
+      .map((line) => line.trim())
+      .join("\n")
+      .trim();
+    if (text) {
+      blocks.push(text);
+    }
+    inlineRun = [];
+  };
+
+  for (const node of nodes) {
+    if (node.type === "element" && BLOCK_ELEMENTS.has(node.tag)) {
+      flushInline();
+      if (!isSkipped(node)) {
+        const block = renderBlock(node, ctx);
+        if (block.trim()) {
+          blocks.push(block);
+        }
+      }
+    } else {
+      inlineRun.push(node);
+    }
+  }
+  flushInline();
+
+  return blocks.join("\n\n");
+}
+
+function renderBlock(node: ElementNode, ctx: RenderContext): string {
+  switch (node.tag) {
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const text = renderInline(node.children, ctx).replace(/\s+/g, " ").trim();
+      return ctx.plain ? text : `${"#".repeat(Number(node.tag[1]))} ${text}`;
+    }
+    case "hr":
+      return ctx.plain ? "" : "---";
+    case "pre": {
+      const text = renderInline(node.children, {
+        ...ctx,
+        inPre: true,
+        plain: true
+      }).replace(/^\n+|\s+$/g, "");
+      return ctx.plain ? text : `\`\`\`\n${text}\n\`\`\``;
+    }
+    case "blockquote": {
+      const text = renderBlocks(node.children, ctx);
+      return ctx.plain
+        ? text
+        : text
+            .split("\n")
+            .map((line) => (line ? `> ${line}` : ">"))
+            .join("\n");
+    }
+    case "ul":
+    case "ol":
+      return renderList(node, ctx);
+    case "dl":
+      return renderDefinitionList(node, ctx);
+    case "table":
+      return renderTable(node, ctx);
+    default:
+      return renderBlocks(node.children, ctx);
+  }
+}
+
+function renderList(node: ElementNode, ctx: RenderContext): string {
+  const ordered = node.tag === "ol";
+  const start = Number(node.attrs.start ?? 1) || 1;
+
+  return childElements(node, ["li"])
+    .map((item, index) => {
+      const marker = ordered ? `${start + index}.` : "-";
+      const indent = " ".repeat(marker.length + 1);
+      const content = renderBlocks(item.children, ctx)
+        .replace(/\n{2,}/g, "\n")
+        .split("\n");
+      return content
+        .map((line, lineIndex) =>
+          lineIndex === 0 ? `${marker} ${line}` : line ? `${indent}${line}` : ""
+        )
+        .join("\n");
+    })
+    .join("\n");
+}
+
+function renderDefinitionList(node: ElementNode, ctx: RenderContext): string {
+  return childElements(node, ["dt", "dd"])
+    .map((item) => {
+      const text = renderBlocks(item.children, ctx).replace(/\n{2,}/g, "\n");
+      if (item.tag === "dt") {
+        return ctx.plain ? text : `**${text}**`;
+      }
+      // MediaWiki uses bare <dd> for indentation (":" in wikitext)
+      return text
+        .split("\n")
+        .map((line) => `  ${line}`)
+        .join("\n");
+    })
+    .join("\n");
+}
+
+function renderTable(node: ElementNode, ctx: RenderContext): string {
+  // Rows may sit directly in the table or inside thead/tbody/tfoot
+  const rows = [
+    ...childElements(node, ["tr"]),
+    ...childElements(node, ["thead", "tbody", "tfoot"]).flatMap((section) =>
+      childElements(section, ["tr"])
+    )
+  ];
+
+  const cells = rows
+    .map((row) =>
+      childElements(row, ["th", "td"]).flatMap((cell) => {
+        const text = renderInline(cell.children, ctx)
+          .trim()
+          .replace(/\s*\n\s*/g, ctx.plain ? " " : "<br>")
+          .replace(/\|/g, ctx.plain ? "|" : "\\|");
+        const span = Math.max(1, Number(cell.attrs.colspan ?? 1) || 1);
+        return [text, ...Array(span - 1).fill("")];
+      })
+    )
+    .filter((row) => row.some((cell) => cell));
+
+  const caption = childElements(node, ["caption"])
+    .map((element) => renderInline(element.children, ctx).trim())
+    .join(" ");
+
+  if (cells.length === 0) {
+    return caption;
+  }
+
+  if (ctx.plain) {
+    return [caption, ...cells.map((row) => row.filter(Boolean).join("\t"))]
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  const columns = Math.max(...cells.map((row) => row.length));
+  const pad = (row: string[]) => [
+    ...row,
+    ...Array(columns - row.length).fill("")
+  ];
+  const line = (row: string[]) => `| ${pad(row).join(" | ")} |`;
+
+  const [header, ...body] = cells;
+  const table = [
+    line(header),
+    `|${" --- |".repeat(columns)}`,
+    ...body.map(line)
+  ].join("\n");
+
+  return caption ? `**${caption}**\n\n${table}` : table;
+}
+
+const tidy = (text: string): string =>
+  text
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+export function htmlToMarkdown(
+  html: string,
+  options: HtmlConversionOptions = {}
+): string {
+  return tidy(
+    renderBlocks(parseHtml(html), { ...options, plain: false, inPre: false })
+  );
+}
+
+export function htmlToText(html: string): string {
+  return tidy(renderBlocks(parseHtml(html), { plain: true, inPre: false }));
+}
@@ -2,12 +2,23 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { hostHeaderValidation } from "@modelcontextprotocol/sdk/server/middleware/hostHeaderValidation.js";
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
-  Tool
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  Tool,
+  UnsubscribeRequestSchema,
+  isInitializeRequest
 } from "@modelcontextprotocol/sdk/types.js";
-import fetch from "node-fetch";
+import fetch, { Blob } from "node-fetch";
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
 import dotenv from "dotenv";
@@ -16,6 +27,37 @@ import express, { Request, Response, NextFunction } from "express";
 import http from "http";
 import https from "https";
 import fs from "fs";
+import { randomUUID } from "crypto";
+import { createUnifiedDiff, diffStats } from "./diff.js";
+import { CookieJar } from "./cookie-jar.js";
+import { PageChangeListener, RecentChangesWatcher } from "./recent-changes.js";
+import { RequestScheduler } from "./request-scheduler.js";
+import {
+  MediaWikiApiError,
+  MediaWikiHttpError,
+  parseRetryAfter,
+  retryDelay
+} from "./retry.js";
+import { CacheStats, ResponseCache, normalizeTitle } from "./response-cache.js";
+import {
+  ApiTransport,
+  fetchTransport,
+  recordingTransport,
+  replayTransport
+} from "./api-transport.js";
+import { readSecretFromEnv } from "./secrets.js";
+import { ApiKey, ApiScope, loadApiKeys, scopeAllows } from "./api-keys.js";
+import {
+  WikiProfileConfig,
+  WikiProfilesConfig,
+  loadWikiProfiles
+} from "./wiki-profiles.js";
+import { htmlToMarkdown, htmlToText } from "./html-to-markdown.js";
+import {
+  normalizeTemplateName,
+  parseTemplates,
+  setTemplateParam
+} from "./wikitext-templates.js";
 
 // Load environment variables from .env file
 dotenv.config();
@@ -26,17 +68,23 @@ interface Config {
   username?: string;
   password?: string;
   port: number;
+  // Address to listen on in HTTP mode (default: every interface)
+  host?: string;
   logLevel: "error" | "warn" | "info" | "debug";
   authTokenExpiry: number;
   retryAttempts: number;
   rateLimitWindow: number;
   rateLimitMaxRequests: number;
+  maxlag: number;
   cacheEnabled: boolean;
   cacheTTL: number;
+  cacheMaxEntries: number;
   allowedOrigins: string;
   sslEnabled: boolean;
   sslKeyPath?: string;
   sslCertPath?: string;
+  cookieFile?: string;
+  rcPollInterval: number;
 }
 
 // Helper function to get a required environment variable
@@ -70,25 +118,30 @@ const config: Config = {
   username: getOptionalEnv("MEDIAWIKI_USERNAME", ""),
   password: getOptionalEnv("MEDIAWIKI_PASSWORD", ""),
   port: getOptionalEnv("PORT", 3000, Number),
+  host: process.env.HOST,
   logLevel: getOptionalEnv("LOG_LEVEL", "info") as Config["logLevel"],
   authTokenExpiry: getOptionalEnv("AUTH_TOKEN_EXPIRY", 3600, Number),
   retryAttempts: getOptionalEnv("RETRY_ATTEMPTS", 3, Number),
-  rateLimitWindow: getOptionalEnv("RATE_LIMIT_WINDOW", 900, Number),
-  rateLimitMaxRequests: getOptionalEnv("RATE_LIMIT_MAX_REQUESTS", 100, Number),
+  rateLimitWindow: getOptionalEnv("RATE_LIMIT_WINDOW", 1, Number),
+  rateLimitMaxRequests: getOptionalEnv("RATE_LIMIT_MAX_REQUESTS", 5, Number),
+  maxlag: getOptionalEnv("MAXLAG", 5, Number),
   cacheEnabled: getOptionalEnv(
     "CACHE_ENABLED",
     true,
     (v) => v.toLowerCase() === "true"
   ),
   cacheTTL: getOptionalEnv("CACHE_TTL", 300, Number),
-  allowedOrigins: getOptionalEnv("ALLOWED_ORIGINS", "*"),
+  cacheMaxEntries: getOptionalEnv("CACHE_MAX_ENTRIES", 500, Number),
+  allowedOrigins: getOptionalEnv("ALLOWED_ORIGINS", ""),
   sslEnabled: getOptionalEnv(
     "SSL_ENABLED",
     false,
     (v) => v.toLowerCase() === "true"
   ),
   sslKeyPath: process.env.SSL_KEY_PATH,
-  sslCertPath: process.env.SSL_CERT_PATH
+  sslCertPath: process.env.SSL_CERT_PATH,
+  cookieFile: process.env.COOKIE_FILE,
+  rcPollInterval: getOptionalEnv("RC_POLL_INTERVAL", 60, Number)
 };
 
 // Validate SSL configuration
@@ -124,7 +177,9 @@ const argv = yargs(hideBin(process.argv))
   })
   .option("password", {
     type: "string",
-    description: "MediaWiki password"
+    description:
+      "No longer supported: set MEDIAWIKI_PASSWORD or MEDIAWIKI_PASSWORD_FILE",
+    hidden: true
   })
   .option("mode", {
     type: "string",
@@ -132,75 +187,55 @@ const argv = yargs(hideBin(process.argv))
     choices: ["stdio", "http"],
     default: "stdio"
   })
+  .option("api-keys", {
+    type: "string",
+    description: "JSON file of API keys that HTTP clients must present"
+  })
+  .option("auth", {
+    type: "boolean",
+    description:
+      "Require API keys in HTTP mode on a non-loopback address, and admin tools without keys (--no-auth to serve without them)",
+    default: true
+  })
+  .option("profiles", {
+    type: "string",
+    description: "JSON file defining several named wikis"
+  })
+  .option("record", {
+    type: "string",
+    description: "Record wiki API requests and responses to a fixture file"
+  })
+  .option("replay", {
+    type: "string",
+    description: "Serve wiki API responses from a recorded fixture file",
+    conflicts: ["record", "fake-wiki"]
+  })
+  .option("fake-wiki", {
+    type: "boolean",
+    description: "Use an in-process fake MediaWiki instead of a real wiki"
+  })
   .help()
   .parseSync();
 
+// Command line arguments show up in process listings, so secrets are only
+// taken from the environment or files
+if (argv.password !== undefined) {
+  throw new Error(
+    "--password is no longer supported: set MEDIAWIKI_PASSWORD or MEDIAWIKI_PASSWORD_FILE instead"
+  );
+}
+
 // Get MediaWiki API credentials from command line or environment variables
 const API_URL =
   argv.apiUrl ||
   process.env.MEDIAWIKI_API_URL ||
   "https://wizzypedia.forgottenrunes.com/api.php";
 const USERNAME = argv.login || process.env.MEDIAWIKI_USERNAME;
-const PASSWORD = argv.password || process.env.MEDIAWIKI_PASSWORD;
+const PASSWORD = readSecretFromEnv("MEDIAWIKI_PASSWORD");
+const OAUTH_TOKEN = readSecretFromEnv("MEDIAWIKI_OAUTH_TOKEN");
 const SERVER_MODE = argv.mode as "stdio" | "http";
-
-// Create Express app and HTTP server only if in HTTP mode
-let app: express.Application | undefined;
-let httpServer: http.Server | https.Server | undefined;
-
-if (SERVER_MODE === "http") {
-  // Create Express app
-  app = express();
-
-  // Basic middleware
-  app.use(express.json());
-  app.use(express.urlencoded({ extended: true }));
-
-  // CORS middleware
-  const corsMiddleware = (
-    req: Request,
-    res: Response,
-    next: NextFunction
-  ): void => {
-    res.header("Access-Control-Allow-Origin", config.allowedOrigins);
-    res.header(
-      "Access-Control-Allow-Methods",
-      "GET, POST, PUT, DELETE, OPTIONS"
-    );
-    res.header(
-      "Access-Control-Allow-Headers",
-      "Origin, X-Requested-With, Content-Type, Accept, Authorization"
-    );
-    if (req.method === "OPTIONS") {
-      res.sendStatus(200);
-      return;
-    }
-    next();
-  };
-
-  app.use(corsMiddleware);
-
-  // Create HTTP(S) server
-  httpServer =
-    config.sslEnabled && config.sslKeyPath && config.sslCertPath
-      ? https.createServer(
-          {
-            key: fs.readFileSync(config.sslKeyPath),
-            cert: fs.readFileSync(config.sslCertPath)
-          },
-          app
-        )
-      : http.createServer(app);
-
-  // Start server
-  httpServer.listen(config.port, () => {
-    console.log(
-      `Server running on port ${config.port} (${
-        config.sslEnabled ? "HTTPS" : "HTTP"
-      })`
-    );
-  });
-}
+const PROFILES_FILE = argv.profiles || process.env.MEDIAWIKI_PROFILES;
+const API_KEYS_FILE = argv.apiKeys || process.env.API_KEYS_FILE;
 
 interface MediaWikiError {
   error: {
@@ -217,96 +252,442 @@ interface MediaWikiResponse {
   [key: string]: any;
 }
 
+interface RevisionInfo {
+  revId: number;
+  timestamp: string;
+  user: string;
+  comment: string;
+  content: string;
+}
+
+// Raised when an edit based on an older revision collides with a newer one.
+// Carries the page's current revision so the caller can merge and retry.
+class EditConflictError extends MediaWikiApiError {
+  constructor(
+    public title: string,
+    info: string,
+    public currentRevision?: RevisionInfo
+  ) {
+    super("editconflict", info);
+    this.name = "EditConflictError";
+  }
+}
+
+// API error codes that mean the session or CSRF token is no longer valid
+const SESSION_ERRORS = new Set([
+  "badtoken",
+  "assertuserfailed",
+  "assertnameduserfailed",
+  "notloggedin"
+]);
+interface SearchOptions {
+  offset?: number;
+  namespaces?: number[];
+  what?: "title" | "text" | "nearmatch";
+  sort?: string;
+  qiProfile?: string;
+  cursor?: string;
+}
+
+type CategoryMemberType = "page" | "subcat" | "file";
+
+interface CategoryMemberOptions {
+  types?: CategoryMemberType[];
+  sort?: "sortkey" | "timestamp";
+  dir?: "asc" | "desc";
+  limit?: number;
+  cursor?: string;
+}
+
+const CATEGORY_NAMESPACE = 14;
+
+// The API accepts at most 50 titles per request (500 for bots)
+const TITLES_PER_REQUEST = 50;
+
+interface TitleStatus {
+  title: string;
+  // Title after normalization and following redirects
+  resolved: string;
+  exists: boolean;
+  redirect: boolean;
+  invalid?: boolean;
+}
+
+// Follow a requested title through the "normalized" and "redirects" lists of
+// a query response. Double redirects are followed, stopping if they loop.
+const followTitle = (
+  title: string,
+  normalized: Map<string, string>,
+  redirects: Map<string, string>
+): { normalized: string; resolved: string } => {
+  const start = normalized.get(title) ?? title;
+  let target = start;
+  const seen = new Set([target]);
+  while (redirects.has(target) && !seen.has(redirects.get(target)!)) {
+    target = redirects.get(target)!;
+    seen.add(target);
+  }
+  return { normalized: start, resolved: target };
+};
+
+// Whether the revisions in a cached query response are still the latest ones,
+// according to a prop=info query for the same titles
+const isLatest = (cached: any, current: any): boolean => {
+  const lastRevIds = new Map<string, number | undefined>(
+    (current.query?.pages ?? []).map((page: any) => [
+      page.title,
+      page.missing ? undefined : page.lastrevid
+    ])
+  );
+  return (cached.query?.pages ?? []).every((page: any) =>
+    page.missing
+      ? lastRevIds.get(page.title) === undefined
+      : !page.revisions ||
+        lastRevIds.get(page.title) === page.revisions[0].revid
+  );
+};
+
+const titleMap = (entries: any[] | undefined): Map<string, string> =>
+  new Map((entries ?? []).map((entry: any) => [entry.from, entry.to]));
+
+interface BatchPage {
+  title: string;
+  normalized: string;
+  resolved: string;
+  // The page object from the API (missing, invalid or with its revision)
+  page?: any;
+}
+
+interface LinkListOptions {
+  namespaces?: number[];
+  limit?: number;
+  cursor?: string;
+}
+
+// Accept category names with or without the "Category:" prefix
+const categoryTitle = (category: string): string =>
+  /^category:/i.test(category.trim())
+    ? category.trim()
+    : `Category:${category.trim()}`;
+
+// Same for files, which also go by the legacy "Image:" namespace name
+const fileTitle = (name: string): string =>
+  /^(file|image):/i.test(name.trim()) ? name.trim() : `File:${name.trim()}`;
+
+// Files larger than this are uploaded in chunks through the upload stash
+const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+
+interface UploadOptions {
+  comment?: string;
+  // Wikitext for the file description page, if the file is new
+  text?: string;
+  ignoreWarnings?: boolean;
+}
+
+// Continuation state is handed to tools as an opaque cursor: the API's
+// `continue` object, base64url-encoded
+const encodeCursor = (continuation: Record<string, string>): string =>
+  Buffer.from(JSON.stringify(continuation)).toString("base64url");
+
+const decodeCursor = (cursor: string): Record<string, string> => {
+  try {
+    const continuation = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    if (continuation && typeof continuation === "object") {
+      return continuation;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid cursor: ${cursor}`);
+};
+
+interface PaginateOptions<T> {
+  // Pull the list items out of one response
+  items: (response: any) => T[] | undefined;
+  // Name of the module's limit parameter, e.g. "cmlimit". Left out for
+  // queries without one, like revisions of several pages at once.
+  limitParam?: string;
+  // Stop once this many items have been returned in total
+  maxItems?: number;
+  // Most items to ask for in a single request
+  batchSize?: number;
+  cursor?: string;
+  cached?: boolean;
+}
+
+interface QueryBatch<T> {
+  response: any;
+  items: T[];
+  // `continue` block to resume after this batch, if there is more
+  continuation?: Record<string, string>;
+}
+
+interface ListResult<T> {
+  items: T[];
+  // True when more items were available than were returned
+  truncated: boolean;
+  // Pass back to continue where this result stopped
+  cursor?: string;
+  // First response, for anything besides the list (searchinfo, missing
+  // pages, normalized titles)
+  response: any;
+}
+
+// clientlogin with the main account password, action=login with a
+// BotPassword (User@AppName), or an OAuth 2.0 owner-only access token sent as
+// a bearer token with every request
+type AuthMethod = "clientlogin" | "botpassword" | "oauth2";
+
+interface UserInfo {
+  name: string;
+  anonymous: boolean;
+  groups: string[];
+  rights: string[];
+  blocked?: { by: string; reason: string; expiry: string };
+}
+
+// Shared by the recent changes, contributions and watchlist queries. As in
+// the API, start is where the listing begins: the newest timestamp when
+// listing newest first (dir "older", the default), the oldest otherwise.
+interface ChangeListOptions {
+  namespaces?: number[];
+  start?: string;
+  end?: string;
+  dir?: "newer" | "older";
+  // Flags such as "minor", "!bot"
+  show?: string[];
+  limit?: number;
+  cursor?: string;
+}
+
+const CHANGE_PROPS = "title|timestamp|ids|user|comment|sizes|flags|loginfo";
+
+interface MediaWikiClientOptions {
+  cacheEnabled?: boolean;
+  cacheTTL?: number;
+  cacheMaxEntries?: number;
+  rateLimitWindow?: number;
+  rateLimitMaxRequests?: number;
+  retryAttempts?: number;
+  maxlag?: number;
+  authTokenExpiry?: number;
+  cookieFile?: string;
+  oauthToken?: string;
+  // How requests reach the wiki; fetchTransport unless recording, replaying
+  // or using the fake wiki
+  transport?: ApiTransport;
+  // Whether files may be downloaded from the wiki. They bypass the transport,
+  // so replaying and the fake wiki turn this off to stay offline.
+  downloads?: boolean;
+}
+
+const USER_AGENT = "MediaWiki-MCP-Server/1.0";
+
 class MediaWikiClient {
   private apiUrl: string;
   private username?: string;
   private password?: string;
+  private oauthToken?: string;
   private loggedIn = false;
+  private sessionCheckedAt = 0;
   private editToken: string = "";
-  private cookies: string[] = [];
+  private editTokenFetchedAt = 0;
+  private userInfo?: UserInfo;
+  private authTokenExpiryMs: number;
+  private cookieJar: CookieJar;
+  private cache: ResponseCache;
+  private scheduler: RequestScheduler;
+  private retryAttempts: number;
+  private maxlag: number;
+  private transport: ApiTransport;
+  private downloads: boolean;
 
-  constructor(apiUrl: string, username?: string, password?: string) {
+  constructor(
+    apiUrl: string,
+    username?: string,
+    password?: string,
+    options: MediaWikiClientOptions = {}
+  ) {
     this.apiUrl = apiUrl;
     this.username = username;
     this.password = password;
+    this.oauthToken = options.oauthToken;
+    this.cache = new ResponseCache(
+      options.cacheEnabled ?? true,
+      options.cacheTTL ?? 300,
+      options.cacheMaxEntries ?? 500
+    );
+    this.scheduler = new RequestScheduler(
+      options.rateLimitMaxRequests ?? 5,
+      (options.rateLimitWindow ?? 1) * 1000
+    );
+    this.retryAttempts = options.retryAttempts ?? 3;
+    this.maxlag = options.maxlag ?? 5;
+    this.authTokenExpiryMs = (options.authTokenExpiry ?? 3600) * 1000;
+    this.cookieJar = new CookieJar(options.cookieFile);
+    this.transport = options.transport ?? fetchTransport;
+    this.downloads = options.downloads ?? true;
+  }
+
+  // How the client logs in, or undefined without credentials. Usernames of
+  // the form User@AppName are BotPasswords.
+  get authMethod(): AuthMethod | undefined {
+    if (this.oauthToken) {
+      return "oauth2";
+    }
+    if (!this.username || !this.password) {
+      return undefined;
+    }
+    return this.username.includes("@") ? "botpassword" : "clientlogin";
+  }
+
+  // Read-only GET request served from the response cache when possible
+  private async cachedApiCall(params: Record<string, any>): Promise<any> {
+    const key = ResponseCache.keyFor(params);
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      if (!params.curtimestamp) {
+        return cached;
+      }
+      // The wiki's time is the start timestamp for edit conflict checks, so it
+      // is fetched again rather than served from the cache. The same request
+      // confirms the cached revisions are still the latest; revisions asked
+      // for by ID never change.
+      const current = await this.makeApiCall({
+        action: "query",
+        prop: "info",
+        titles: params.titles,
+        redirects: params.redirects,
+        curtimestamp: true
+      });
+      if (params.titles === undefined || isLatest(cached, current)) {
+        return { ...cached, curtimestamp: current.curtimestamp };
+      }
+    }
+
+    const data = await this.makeApiCall(params);
+    const titles = ResponseCache.titlesFor(params);
+    ResponseCache.titlesIn(data).forEach((title) => titles.add(title));
+    this.cache.set(key, data, titles);
+    return data;
+  }
+
+  getCacheStats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  // Drop cached responses for a page that changed outside this client
+  invalidateCache(title: string): void {
+    this.cache.invalidateTitle(title);
   }
 
   private async makeApiCall(
     params: Record<string, any>,
     method: "GET" | "POST" = "GET"
   ): Promise<any> {
-    const url = new URL(this.apiUrl);
-
     // Set common parameters
     params.format = "json";
     params.formatversion = "2";
+    if (this.maxlag > 0 && params.maxlag === undefined) {
+      params.maxlag = this.maxlag;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      await this.scheduler.acquire();
+
+      try {
+        return await this.sendRequest(params, method);
+      } catch (error) {
+        const delay = retryDelay(error, method, attempt, this.retryAttempts);
+        if (delay === undefined) {
+          throw error;
+        }
 
+        console.error(
+          `${error instanceof Error ? error.message : String(error)}; retrying in ${Math.ceil(
+            delay / 1000
+          )}s (attempt ${attempt + 1} of ${this.retryAttempts})`
+        );
+        this.scheduler.pauseFor(delay);
+      }
+    }
+  }
+
+  // Send a single request and decode the response
+  private async sendRequest(
+    params: Record<string, any>,
+    method: "GET" | "POST"
+  ): Promise<any> {
     const headers: Record<string, string> = {
-      "User-Agent": "MediaWiki-MCP-Server/1.0",
+      "User-Agent": USER_AGENT,
       Accept: "application/json"
     };
 
-    if (this.cookies.length > 0) {
-      // Only use the most recent cookie for each name
-      const cookieMap = new Map<string, string>();
-      this.cookies.forEach((cookie) => {
-        const [cookieStr] = cookie.split(";");
-        const [name, value] = cookieStr.split("=");
-        cookieMap.set(name, value);
-      });
-
-      const cookieHeader = Array.from(cookieMap.entries())
-        .map(([name, value]) => `${name}=${value}`)
-        .join("; ");
-
+    const cookieHeader = this.cookieJar.getCookieHeader(this.apiUrl);
+    if (cookieHeader) {
       headers["Cookie"] = cookieHeader;
     }
+    if (this.oauthToken) {
+      headers["Authorization"] = `Bearer ${this.oauthToken}`;
+    }
 
-    let response;
-    if (method === "GET") {
-      // Append params to URL for GET requests
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined) {
-          url.searchParams.append(key, String(value));
-        }
-      });
-
-      response = await fetch(url.toString(), { headers, method: "GET" });
-    } else {
-      // Create form data for POST requests
-      const formData = new URLSearchParams();
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined) {
-          formData.append(key, String(value));
-        }
-      });
+    // The API reads a boolean parameter as true whenever it is present,
+    // whatever its value, so false is left out like undefined
+    const response = await this.transport({
+      method,
+      url: this.apiUrl,
+      params: Object.fromEntries(
+        Object.entries(params).filter(
+          ([, value]) => value !== undefined && value !== false
+        )
+      ),
+      headers
+    });
+    const ok = response.status >= 200 && response.status < 300;
 
-      response = await fetch(url.toString(), {
-        method: "POST",
-        headers: {
-          ...headers,
-          "Content-Type": "application/x-www-form-urlencoded"
-        },
-        body: formData
-      });
+    // Save cookies from response (one entry per Set-Cookie header)
+    const setCookieHeaders = response.headers["set-cookie"];
+    if (setCookieHeaders) {
+      this.cookieJar.setCookies(setCookieHeaders, this.apiUrl);
     }
 
-    // Save cookies from response
-    const setCookieHeader = response.headers.get("Set-Cookie");
-    if (setCookieHeader) {
-      // Split multiple cookies and add each one
-      setCookieHeader.split(",").forEach((cookie) => {
-        const trimmedCookie = cookie.trim();
-        if (!this.cookies.includes(trimmedCookie)) {
-          this.cookies.push(trimmedCookie);
-        }
-      });
+    const retryAfterMs = parseRetryAfter(
+      response.headers["retry-after"]?.[0] ?? null
+    );
+
+    // Error pages from proxies or an overloaded wiki are usually HTML
+    let data: Record<string, any>;
+    try {
+      data = JSON.parse(response.body);
+    } catch {
+      throw new MediaWikiHttpError(
+        response.status,
+        ok
+          ? "Unexpected non-JSON response"
+          : response.statusText || "Request failed",
+        retryAfterMs
+      );
     }
 
-    const data = (await response.json()) as Record<string, any>;
     if (data.error) {
-      throw new Error(
-        `MediaWiki API error: ${data.error.code} - ${data.error.info}`
+      throw new MediaWikiApiError(
+        data.error.code,
+        data.error.info,
+        retryAfterMs
+      );
+    }
+
+    if (!ok) {
+      throw new MediaWikiHttpError(
+        response.status,
+        response.statusText || "Request failed",
+        retryAfterMs
       );
     }
 
@@ -314,15 +695,39 @@ class MediaWikiClient {
   }
 
   async login(): Promise<boolean> {
-    if (!this.username || !this.password) {
+    const method = this.authMethod;
+    if (!method) {
       // No credentials provided, skip login
       return false;
     }
 
     if (this.loggedIn) {
+      if (Date.now() - this.sessionCheckedAt < this.authTokenExpiryMs) {
+        return true;
+      }
+
+      // The wiki may have expired our session since we last checked
+      if (await this.isSessionActive()) {
+        this.sessionCheckedAt = Date.now();
+        return true;
+      }
+      this.invalidateSession();
+    } else if (
+      (method === "oauth2" || this.cookieJar.size > 0) &&
+      (await this.isSessionActive())
+    ) {
+      // OAuth requests are authorized by their bearer token; otherwise reuse
+      // a session restored from the cookie file
+      this.loggedIn = true;
+      this.sessionCheckedAt = Date.now();
       return true;
     }
 
+    if (method === "oauth2") {
+      console.error("Login failed: the wiki did not accept the OAuth token");
+      return false;
+    }
+
     try {
       // Step 1: Get login token
       const tokenResponse = await this.makeApiCall({
@@ -333,28 +738,20 @@ class MediaWikiClient {
 
       const loginToken = tokenResponse.query.tokens.logintoken;
 
-      // Step 2: Perform login with token using clientlogin
-      const loginResponse = await this.makeApiCall(
-        {
-          action: "clientlogin",
-          username: this.username,
-          password: this.password,
-          logintoken: loginToken,
-          loginreturnurl: "https://wizzypedia.forgottenrunes.com",
-          rememberMe: "1"
-        },
-        "POST"
-      );
+      // Step 2: Perform login with token
+      const failure =
+        method === "botpassword"
+          ? await this.botPasswordLogin(loginToken)
+          : await this.clientLogin(loginToken);
 
-      if (loginResponse.clientlogin?.status === "PASS") {
+      if (failure === undefined) {
         this.loggedIn = true;
+        this.sessionCheckedAt = Date.now();
+        this.editToken = "";
+        this.userInfo = undefined;
         return true;
       } else {
-        console.error(
-          `Login failed: ${
-            loginResponse.clientlogin?.message || "Unknown error"
-          }`
-        );
+        console.error(`Login failed: ${failure}`);
         return false;
       }
     } catch (error) {
@@ -363,427 +760,5335 @@ class MediaWikiClient {
     }
   }
 
+  // Returns why the login failed, or undefined if it succeeded
+  private async clientLogin(loginToken: string): Promise<string | undefined> {
+    const response = await this.makeApiCall(
+      {
+        action: "clientlogin",
+        username: this.username,
+        password: this.password,
+        logintoken: loginToken,
+        // Required, though only used by interactive login flows
+        loginreturnurl: new URL(this.apiUrl).origin,
+        rememberMe: "1"
+      },
+      "POST"
+    );
+    return response.clientlogin?.status === "PASS"
+      ? undefined
+      : response.clientlogin?.message || "Unknown error";
+  }
+
+  // BotPasswords (Special:BotPasswords) can't use clientlogin. Their rights
+  // are limited to the grants chosen for the bot password.
+  private async botPasswordLogin(
+    loginToken: string
+  ): Promise<string | undefined> {
+    const response = await this.makeApiCall(
+      {
+        action: "login",
+        lgname: this.username,
+        lgpassword: this.password,
+        lgtoken: loginToken
+      },
+      "POST"
+    );
+    return response.login?.result === "Success"
+      ? undefined
+      : response.login?.reason || response.login?.result || "Unknown error";
+  }
+
+  private async isSessionActive(): Promise<boolean> {
+    try {
+      const response = await this.makeApiCall({
+        action: "query",
+        meta: "userinfo"
+      });
+      return !response.query.userinfo.anon;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Forget the current session so the next write logs in again
+  private invalidateSession(): void {
+    this.loggedIn = false;
+    this.sessionCheckedAt = 0;
+    this.editToken = "";
+    this.userInfo = undefined;
+  }
+
+  // Who the wiki thinks we are and what we may do. Kept until the session
+  // changes.
+  async getUserInfo(): Promise<UserInfo> {
+    if (!this.userInfo) {
+      const response = await this.makeApiCall({
+        action: "query",
+        meta: "userinfo",
+        uiprop: "rights|groups|blockinfo"
+      });
+      const info = response.query.userinfo;
+      this.userInfo = {
+        name: info.name,
+        anonymous: info.anon === true,
+        groups: info.groups ?? [],
+        rights: info.rights ?? [],
+        blocked: info.blockid
+          ? {
+              by: info.blockedby,
+              reason: info.blockreason,
+              expiry: info.blockexpiry
+            }
+          : undefined
+      };
+    }
+    return this.userInfo;
+  }
+
   async getEditToken(): Promise<string> {
-    if (!this.editToken) {
+    if (
+      !this.editToken ||
+      Date.now() - this.editTokenFetchedAt >= this.authTokenExpiryMs
+    ) {
       const tokenResponse = await this.makeApiCall({
         action: "query",
         meta: "tokens"
       });
 
       this.editToken = tokenResponse.query.tokens.csrftoken;
+      this.editTokenFetchedAt = Date.now();
     }
 
     return this.editToken;
   }
 
-  async searchPages(query: string, limit: number = 10): Promise<any> {
-    return this.makeApiCall({
+  // Tokens other than the CSRF token are rarely needed, so they aren't kept
+  private async getToken(type: string): Promise<string> {
+    const response = await this.makeApiCall({
       action: "query",
-      list: "search",
-      srsearch: query,
-      srlimit: limit,
-      srinfo: "totalhits",
-      srprop: "size|wordcount|timestamp|snippet"
+      meta: "tokens",
+      type
     });
+    return response.query.tokens[`${type}token`];
   }
 
-  async getPage(title: string): Promise<any> {
-    return this.makeApiCall({
-      action: "query",
-      prop: "revisions",
-      titles: title,
-      rvprop: "content|timestamp|user|comment",
-      rvslots: "main"
-    });
+  // POST a write action with a CSRF token and assert=user. If the session or
+  // token has expired, log in again and retry once with a fresh token.
+  private async makeWriteCall(
+    params: Record<string, any>,
+    tokenType: "csrf" | "watch" = "csrf"
+  ): Promise<any> {
+    const send = async () =>
+      this.makeApiCall(
+        {
+          ...params,
+          assert: "user",
+          token:
+            tokenType === "csrf"
+              ? await this.getEditToken()
+              : await this.getToken(tokenType)
+        },
+        "POST"
+      );
+
+    try {
+      return await send();
+    } catch (error) {
+      if (
+        !(error instanceof MediaWikiApiError) ||
+        !SESSION_ERRORS.has(error.code)
+      ) {
+        throw error;
+      }
+
+      console.error(`${error.message}; logging in again and retrying`);
+      this.invalidateSession();
+      if (!(await this.login())) {
+        throw error;
+      }
+      return send();
+    }
   }
 
-  async createPage(
-    title: string,
-    content: string,
-    summary: string = ""
-  ): Promise<any> {
-    // Ensure we have an edit token
-    const token = await this.getEditToken();
+  // Run a list-style query, following `continue` from one request to the
+  // next. Each request asks for no more than the items still wanted, so a
+  // batch is never cut short and its continuation is always a valid resume
+  // point.
+  async *paginate<T>(
+    params: Record<string, any>,
+    options: PaginateOptions<T>
+  ): AsyncGenerator<QueryBatch<T>> {
+    const maxItems = options.maxItems ?? Infinity;
+    const batchSize = options.batchSize ?? 500;
+    let continuation = options.cursor
+      ? decodeCursor(options.cursor)
+      : undefined;
+    let returned = 0;
 
-    return this.makeApiCall(
-      {
-        action: "edit",
-        title,
-        text: content,
-        summary,
-        token,
-        createonly: true
-      },
-      "POST"
-    );
+    while (returned < maxItems) {
+      const request: Record<string, any> = { ...params, ...continuation };
+      if (options.limitParam) {
+        request[options.limitParam] = Math.min(batchSize, maxItems - returned);
+      }
+      const response =
+        options.cached === false
+          ? await this.makeApiCall(request)
+          : await this.cachedApiCall(request);
+
+      const items = options.items(response) ?? [];
+      returned += items.length;
+      continuation = response.continue;
+      yield { response, items, continuation };
+
+      if (!continuation) {
+        return;
+      }
+    }
   }
 
-  async updatePage(
-    title: string,
-    content: string,
-    summary: string = ""
-  ): Promise<any> {
-    // Ensure we have an edit token
-    const token = await this.getEditToken();
+  // Collect up to maxItems from a paginated query
+  async queryList<T = any>(
+    params: Record<string, any>,
+    options: PaginateOptions<T>
+  ): Promise<ListResult<T>> {
+    const items: T[] = [];
+    let first: any;
+    let continuation: Record<string, string> | undefined;
 
-    return this.makeApiCall(
+    for await (const batch of this.paginate(params, options)) {
+      first ??= batch.response;
+      items.push(...batch.items);
+      continuation = batch.continuation;
+    }
+
+    return {
+      items,
+      truncated: continuation !== undefined,
+      cursor: continuation ? encodeCursor(continuation) : undefined,
+      response: first
+    };
+  }
+
+  async searchPages(
+    query: string,
+    limit: number = 10,
+    options: SearchOptions = {}
+  ): Promise<ListResult<any>> {
+    return this.queryList(
       {
-        action: "edit",
-        title,
-        text: content,
-        summary,
-        token
+        action: "query",
+        list: "search",
+        srsearch: query,
+        sroffset: options.offset,
+        srnamespace: options.namespaces?.join("|") ?? "0",
+        srwhat: options.what,
+        srsort: options.sort,
+        srqiprofile: options.qiProfile,
+        srinfo: "totalhits|suggestion|rewrittenquery",
+        srprop: "size|wordcount|timestamp|snippet|redirecttitle|sectiontitle"
       },
-      "POST"
+      {
+        items: (response) => response.query?.search,
+        limitParam: "srlimit",
+        maxItems: limit,
+        cursor: options.cursor
+      }
+    );
+  }
+
+  // Title prefix search (autocomplete), used to resolve fuzzy titles
+  async prefixSearch(
+    prefix: string,
+    limit: number = 10,
+    options: { offset?: number; namespaces?: number[]; cursor?: string } = {}
+  ): Promise<ListResult<any>> {
+    return this.queryList(
+      {
+        action: "query",
+        list: "prefixsearch",
+        pssearch: prefix,
+        psoffset: options.offset,
+        psnamespace: options.namespaces?.join("|") ?? "0"
+      },
+      {
+        items: (response) => response.query?.prefixsearch,
+        limitParam: "pslimit",
+        maxItems: limit,
+        cursor: options.cursor
+      }
     );
   }
 
-  async getPageHistory(title: string, limit: number = 10): Promise<any> {
-    return this.makeApiCall({
+  async getPage(
+    title: string,
+    options: { section?: number | string; revId?: number } = {}
+  ): Promise<any> {
+    // A specific revision is looked up by ID; the title is implied by it
+    return this.cachedApiCall({
       action: "query",
       prop: "revisions",
-      titles: title,
-      rvprop: "timestamp|user|comment|ids",
-      rvlimit: limit
+      titles: options.revId === undefined ? title : undefined,
+      revids: options.revId,
+      rvprop: "ids|content|timestamp|user|comment",
+      rvslots: "main",
+      rvsection: options.section,
+      curtimestamp: true
+    });
+  }
+
+  // Rendered HTML of the current revision of a page
+  async getRenderedPage(title: string): Promise<any> {
+    return this.cachedApiCall({
+      action: "parse",
+      page: title,
+      prop: "text|revid|displaytitle",
+      redirects: true,
+      disableeditsection: true,
+      disablelimitreport: true
     });
   }
 
-  async getCategories(title: string): Promise<any> {
-    return this.makeApiCall({
+  // Plain-text extract from the TextExtracts extension. Pages come back
+  // without an "extract" field if the extension isn't installed.
+  async getPageExtract(title: string): Promise<any> {
+    return this.cachedApiCall({
       action: "query",
-      prop: "categories",
+      prop: "extracts|revisions",
       titles: title,
-      cllimit: "max"
+      explaintext: true,
+      exsectionformat: "wiki",
+      rvprop: "ids"
     });
   }
-}
-
-// Initialize the MediaWiki client
-const wikiClient = new MediaWikiClient(API_URL, USERNAME, PASSWORD);
 
-// Tool definitions
-const SEARCH_PAGES_TOOL: Tool = {
-  name: "search_pages",
-  description: "Search for pages in the wiki using keywords",
-  inputSchema: {
-    type: "object",
-    properties: {
-      query: {
-        type: "string",
-        description: "Search query string"
+  // Render wikitext as it would appear on the given page, without saving it
+  async parseWikitext(title: string, text: string): Promise<any> {
+    return this.makeApiCall(
+      {
+        action: "parse",
+        title,
+        text,
+        contentmodel: "wikitext",
+        prop: "text",
+        pst: true,
+        disableeditsection: true,
+        disablelimitreport: true
       },
-      limit: {
-        type: "number",
-        description:
-          "Maximum number of results to return (default: 10, max: 50)",
-        default: 10
-      }
-    },
-    required: ["query"]
+      "POST"
+    );
   }
-};
 
-const READ_PAGE_TOOL: Tool = {
-  name: "read_page",
-  description: "Fetch the raw wikitext content of a page",
-  inputSchema: {
-    type: "object",
-    properties: {
-      title: {
-        type: "string",
-        description: "Title of the page to read"
+  async listAllPages(
+    limit: number = 100,
+    cursor?: string
+  ): Promise<ListResult<any>> {
+    return this.queryList(
+      { action: "query", list: "allpages" },
+      {
+        items: (response) => response.query?.allpages,
+        limitParam: "aplimit",
+        maxItems: limit,
+        cursor
       }
-    },
-    required: ["title"]
+    );
   }
-};
 
-const CREATE_PAGE_TOOL: Tool = {
-  name: "create_page",
-  description: "Create a new wiki page",
-  inputSchema: {
-    type: "object",
-    properties: {
-      title: {
-        type: "string",
-        description: "Title of the new page"
-      },
-      content: {
-        type: "string",
-        description: "Wiki content for the new page"
-      },
-      summary: {
-        type: "string",
-        description: "Edit summary",
-        default: "Created via MCP"
-      }
-    },
-    required: ["title", "content"]
+  // Redirects are not followed, so the indexes match getPage and updatePage
+  async getSections(title: string): Promise<any> {
+    return this.cachedApiCall({
+      action: "parse",
+      page: title,
+      prop: "sections"
+    });
   }
-};
 
-const UPDATE_PAGE_TOOL: Tool = {
-  name: "update_page",
-  description: "Update an existing wiki page",
-  inputSchema: {
-    type: "object",
-    properties: {
-      title: {
-        type: "string",
-        description: "Title of the page to update"
-      },
-      content: {
-        type: "string",
-        description: "New wiki content for the page"
-      },
-      summary: {
-        type: "string",
-        description: "Edit summary",
-        default: "Updated via MCP"
+  // Fetch the latest revision of a page, bypassing the response cache
+  async getCurrentRevision(title: string): Promise<RevisionInfo | undefined> {
+    this.cache.invalidateTitle(title);
+    const result = await this.getPage(title);
+    const page = result.query.pages[0];
+    if (page.missing) {
+      return undefined;
+    }
+
+    const revision = page.revisions[0];
+    return {
+      revId: revision.revid,
+      timestamp: revision.timestamp,
+      user: revision.user,
+      comment: revision.comment,
+      content: revision.slots.main.content
+    };
+  }
+
+  async createPage(
+    title: string,
+    content: string,
+    summary: string = ""
+  ): Promise<any> {
+    const result = await this.makeWriteCall({
+      action: "edit",
+      title,
+      text: content,
+      summary,
+      createonly: true
+    });
+
+    if (result.edit?.result === "Success") {
+      this.cache.invalidateTitle(title);
+    }
+
+    return result;
+  }
+
+  async updatePage(
+    title: string,
+    content: string,
+    summary: string = "",
+    options: {
+      baseRevId?: number;
+      startTimestamp?: string;
+      section?: number | string;
+      sectionTitle?: string;
+    } = {}
+  ): Promise<any> {
+    let result;
+    try {
+      result = await this.makeWriteCall({
+        action: "edit",
+        title,
+        text: content,
+        summary,
+        baserevid: options.baseRevId,
+        starttimestamp: options.startTimestamp,
+        section: options.section,
+        sectiontitle: options.sectionTitle
+      });
+    } catch (error) {
+      if (error instanceof MediaWikiApiError && error.code === "editconflict") {
+        throw new EditConflictError(
+          title,
+          error.info,
+          await this.getCurrentRevision(title)
+        );
       }
-    },
-    required: ["title", "content"]
+      throw error;
+    }
+
+    if (result.edit?.result === "Success") {
+      this.cache.invalidateTitle(title);
+    }
+
+    return result;
   }
-};
 
-const GET_PAGE_HISTORY_TOOL: Tool = {
-  name: "get_page_history",
-  description: "Get revision history of a page",
-  inputSchema: {
-    type: "object",
-    properties: {
-      title: {
-        type: "string",
-        description: "Title of the page"
+  async getPageHistory(
+    title: string,
+    limit: number = 10,
+    cursor?: string
+  ): Promise<ListResult<any>> {
+    return this.queryList(
+      {
+        action: "query",
+        prop: "revisions",
+        titles: title,
+        rvprop: "timestamp|user|comment|ids"
       },
-      limit: {
-        type: "number",
-        description: "Maximum number of revisions to return (default: 10)",
-        default: 10
+      {
+        items: (response) => response.query?.pages?.[0]?.revisions,
+        limitParam: "rvlimit",
+        maxItems: limit,
+        cursor
       }
-    },
-    required: ["title"]
+    );
   }
-};
 
-const GET_CATEGORIES_TOOL: Tool = {
-  name: "get_categories",
-  description: "Get categories a page belongs to",
-  inputSchema: {
-    type: "object",
-    properties: {
-      title: {
-        type: "string",
-        description: "Title of the page"
-      }
-    },
-    required: ["title"]
+  // Revisions by ID, with content. Old revisions never change, so these are
+  // safe to cache.
+  async getRevisions(revIds: number[]): Promise<any> {
+    return this.cachedApiCall({
+      action: "query",
+      prop: "revisions",
+      revids: revIds.join("|"),
+      rvprop: "ids|content|timestamp|user|comment|size",
+      rvslots: "main"
+    });
   }
-};
 
-// Create and configure the MCP server
-const server = new Server(
-  {
-    name: "wizzypedia-mcp-server",
-    version: "1.0.3"
-  },
-  {
-    capabilities: {
-      tools: {}
+  // Revision metadata for both sides of a diff. Without toRev the diff is
+  // against the current revision, which can change, so it isn't cached.
+  async compareRevisions(fromRev: number, toRev?: number): Promise<any> {
+    const params = {
+      action: "compare",
+      fromrev: fromRev,
+      torev: toRev,
+      torelative: toRev === undefined ? "cur" : undefined,
+      prop: "ids|title|user|comment|timestamp|size"
+    };
+    return toRev === undefined
+      ? this.makeApiCall(params)
+      : this.cachedApiCall(params);
+  }
+
+  // Undo a revision, or every revision after undoAfter up to and including
+  // undo
+  async undoRevisions(
+    title: string,
+    undo: number,
+    options: { undoAfter?: number; summary?: string } = {}
+  ): Promise<any> {
+    const result = await this.makeWriteCall({
+      action: "edit",
+      title,
+      undo,
+      undoafter: options.undoAfter,
+      summary: options.summary,
+      nocreate: true
+    });
+
+    if (result.edit?.result === "Success") {
+      this.cache.invalidateTitle(title);
     }
+
+    return result;
   }
-);
 
-// Register the tools
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools: [
-    SEARCH_PAGES_TOOL,
-    READ_PAGE_TOOL,
-    CREATE_PAGE_TOOL,
-    UPDATE_PAGE_TOOL,
-    GET_PAGE_HISTORY_TOOL,
-    GET_CATEGORIES_TOOL
-  ]
-}));
-
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    if (!request.params.arguments) {
-      throw new Error("Arguments are required");
+  async movePage(
+    from: string,
+    to: string,
+    options: {
+      reason?: string;
+      moveTalk?: boolean;
+      moveSubpages?: boolean;
+      noRedirect?: boolean;
+    } = {}
+  ): Promise<any> {
+    const result = await this.makeWriteCall({
+      action: "move",
+      from,
+      to,
+      reason: options.reason,
+      movetalk: options.moveTalk,
+      movesubpages: options.moveSubpages,
+      noredirect: options.noRedirect
+    });
+
+    for (const title of [from, to]) {
+      this.cache.invalidateTitle(title);
+    }
+    for (const subpage of result.move?.subpages ?? []) {
+      this.cache.invalidateTitle(subpage.from);
+      this.cache.invalidateTitle(subpage.to);
     }
 
-    // Only require login for write operations
-    const writeOperations = ["create_page", "update_page"];
-    if (writeOperations.includes(request.params.name)) {
-      const loginSuccess = await wikiClient.login();
-      if (!loginSuccess) {
-        throw new Error(
-          "Authentication required for write operations. Please provide valid username and password."
-        );
-      }
+    return result;
+  }
+
+  async deletePage(title: string, reason?: string): Promise<any> {
+    const result = await this.makeWriteCall({
+      action: "delete",
+      title,
+      reason
+    });
+    this.cache.invalidateTitle(title);
+    return result;
+  }
+
+  async undeletePage(title: string, reason?: string): Promise<any> {
+    const result = await this.makeWriteCall({
+      action: "undelete",
+      title,
+      reason
+    });
+    this.cache.invalidateTitle(title);
+    return result;
+  }
+
+  // protections maps an action (edit, move, create, upload) to a level such
+  // as "autoconfirmed" or "sysop"; "all" removes the protection
+  async protectPage(
+    title: string,
+    protections: Record<string, string>,
+    options: { expiry?: string; reason?: string; cascade?: boolean } = {}
+  ): Promise<any> {
+    const actions = Object.entries(protections);
+    return this.makeWriteCall({
+      action: "protect",
+      title,
+      protections: actions
+        .map(([action, level]) => `${action}=${level}`)
+        .join("|"),
+      expiry: actions.map(() => options.expiry ?? "infinite").join("|"),
+      reason: options.reason,
+      cascade: options.cascade
+    });
+  }
+
+  async purgePages(
+    titles: string[],
+    options: {
+      forceLinkUpdate?: boolean;
+      forceRecursiveLinkUpdate?: boolean;
+    } = {}
+  ): Promise<any> {
+    const result = await this.makeWriteCall({
+      action: "purge",
+      titles: titles.join("|"),
+      forcelinkupdate: options.forceLinkUpdate,
+      forcerecursivelinkupdate: options.forceRecursiveLinkUpdate
+    });
+    for (const title of titles) {
+      this.cache.invalidateTitle(title);
     }
+    return result;
+  }
 
-    switch (request.params.name) {
-      case "search_pages": {
-        const { query, limit = 10 } = request.params.arguments as {
-          query: string;
-          limit?: number;
-        };
-        const result = await wikiClient.searchPages(query, Math.min(limit, 50));
-
-        // Format search results in a readable way
-        const pages = result.query.search.map((page: any) => ({
-          title: page.title,
-          snippet: page.snippet,
-          size: page.size,
-          wordCount: page.wordcount,
-          timestamp: page.timestamp
-        }));
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  totalHits: result.query.searchinfo.totalhits,
-                  pages
-                },
-                null,
-                2
-              )
-            }
-          ]
-        };
+  // Upload a file, in chunks when it's large. If the wiki answers with
+  // warnings (duplicate, existing file, ...) the file stays in the upload
+  // stash and the result carries a filekey for commitUpload.
+  async uploadFile(
+    filename: string,
+    data: Buffer,
+    options: UploadOptions = {}
+  ): Promise<any> {
+    if (data.length <= UPLOAD_CHUNK_SIZE) {
+      const result = await this.makeWriteCall({
+        action: "upload",
+        filename,
+        comment: options.comment,
+        text: options.text,
+        ignorewarnings: options.ignoreWarnings,
+        file: new Blob([Uint8Array.from(data)])
+      });
+      if (result.upload?.result === "Success") {
+        this.cache.invalidateTitle(fileTitle(filename));
       }
+      return result;
+    }
 
-      case "read_page": {
-        const { title } = request.params.arguments as { title: string };
-        const result = await wikiClient.getPage(title);
+    let fileKey: string | undefined;
+    for (let offset = 0; offset < data.length; offset += UPLOAD_CHUNK_SIZE) {
+      const result = await this.makeWriteCall({
+        action: "upload",
+        filename,
+        filesize: data.length,
+        offset,
+        filekey: fileKey,
+        stash: true,
+        ignorewarnings: options.ignoreWarnings,
+        chunk: new Blob([
+          Uint8Array.from(data.subarray(offset, offset + UPLOAD_CHUNK_SIZE))
+        ])
+      });
+      // "Continue" after each chunk and "Success" once the last one is
+      // stashed; anything else (warnings) is for the caller to handle
+      if (!["Continue", "Success"].includes(result.upload?.result)) {
+        return result;
+      }
+      fileKey = result.upload.filekey;
+    }
 
-        const pages = result.query.pages;
-        const page = pages[0];
+    return this.commitUpload(filename, fileKey!, options);
+  }
 
-        if (page.missing) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    title: page.title,
-                    exists: false,
-                    message: "Page does not exist"
-                  },
-                  null,
-                  2
-                )
-              }
-            ]
-          };
-        }
+  // Publish a file from the upload stash under its final name
+  async commitUpload(
+    filename: string,
+    fileKey: string,
+    options: UploadOptions = {}
+  ): Promise<any> {
+    const result = await this.makeWriteCall({
+      action: "upload",
+      filename,
+      filekey: fileKey,
+      comment: options.comment,
+      text: options.text,
+      ignorewarnings: options.ignoreWarnings
+    });
+    if (result.upload?.result === "Success") {
+      this.cache.invalidateTitle(fileTitle(filename));
+    }
+    return result;
+  }
 
-        const revision = page.revisions[0];
-        const content = revision.slots.main.content;
+  async getFileInfo(name: string, thumbWidth?: number): Promise<any> {
+    return this.cachedApiCall({
+      action: "query",
+      prop: "imageinfo",
+      titles: fileTitle(name),
+      iiprop: "url|size|mime|sha1|user|timestamp|comment",
+      iiurlwidth: thumbWidth
+    });
+  }
 
-        return {
-          content: [
+  // Download a file from the wiki (e.g. an image thumbnail), sending the
+  // session cookies so it also works on private wikis
+  async downloadFile(
+    fileUrl: string,
+    maxBytes: number
+  ): Promise<{ data: Buffer; mimeType: string }> {
+    if (!this.downloads) {
+      throw new Error(
+        "Files can't be downloaded when replaying a recording or using the fake wiki"
+      );
+    }
+    const url = new URL(fileUrl, this.apiUrl).toString();
+    const headers: Record<string, string> = { "User-Agent": USER_AGENT };
+    const cookieHeader = this.cookieJar.getCookieHeader(url);
+    if (cookieHeader) {
+      headers["Cookie"] = cookieHeader;
+    }
+    // Files are often served from another host (a CDN, a shared repository
+    // like Commons), which must not see the wiki's token
+    if (
+      this.oauthToken &&
+      new URL(url).origin === new URL(this.apiUrl).origin
+    ) {
+      headers["Authorization"] = `Bearer ${this.oauthToken}`;
+    }
+
+    await this.scheduler.acquire();
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+      throw new MediaWikiHttpError(
+        response.status,
+        response.statusText || "Request failed"
+      );
+    }
+
+    const declaredLength = Number(response.headers.get("Content-Length"));
+    if (declaredLength > maxBytes) {
+      throw new Error(`File is larger than ${maxBytes} bytes`);
+    }
+    const data = Buffer.from(await response.arrayBuffer());
+    if (data.length > maxBytes) {
+      throw new Error(`File is larger than ${maxBytes} bytes`);
+    }
+
+    return {
+      data,
+      mimeType:
+        response.headers.get("Content-Type")?.split(";")[0].trim() ??
+        "application/octet-stream"
+    };
+  }
+
+  async getCategories(
+    title: string,
+    limit: number = 500,
+    cursor?: string
+  ): Promise<ListResult<any>> {
+    return this.queryList(
+      {
+        action: "query",
+        prop: "categories",
+        titles: title
+      },
+      {
+        items: (response) => response.query?.pages?.[0]?.categories,
+        limitParam: "cllimit",
+        maxItems: limit,
+        cursor
+      }
+    );
+  }
+
+  async getCategoryMembers(
+    category: string,
+    options: CategoryMemberOptions = {}
+  ): Promise<ListResult<any>> {
+    return this.queryList(
+      {
+        action: "query",
+        list: "categorymembers",
+        cmtitle: categoryTitle(category),
+        cmprop: "ids|title|type|sortkeyprefix|timestamp",
+        cmtype: options.types?.join("|"),
+        cmsort: options.sort,
+        cmdir: options.dir
+      },
+      {
+        items: (response) => response.query?.categorymembers,
+        limitParam: "cmlimit",
+        maxItems: options.limit ?? 50,
+        cursor: options.cursor
+      }
+    );
+  }
+
+  // Normalize titles, follow redirects and check which targets exist
+  async resolveTitles(titles: string[]): Promise<Map<string, TitleStatus>> {
+    const statuses = new Map<string, TitleStatus>();
+    const unique = [...new Set(titles)];
+
+    for (let i = 0; i < unique.length; i += TITLES_PER_REQUEST) {
+      const batch = unique.slice(i, i + TITLES_PER_REQUEST);
+      const result = await this.cachedApiCall({
+        action: "query",
+        prop: "info",
+        titles: batch.join("|"),
+        redirects: true
+      });
+
+      const query = result.query ?? {};
+      const normalized = titleMap(query.normalized);
+      const redirects = titleMap(query.redirects);
+      const pages = new Map<string, any>(
+        (query.pages ?? []).map((page: any) => [page.title, page])
+      );
+
+      for (const title of batch) {
+        const { normalized: start, resolved } = followTitle(
+          title,
+          normalized,
+          redirects
+        );
+        const page = pages.get(resolved);
+        statuses.set(title, {
+          title,
+          resolved,
+          exists:
+            page !== undefined &&
+            !page.invalid &&
+            (!page.missing || page.special === true),
+          redirect: resolved !== start,
+          invalid: page?.invalid || undefined
+        });
+      }
+    }
+
+    return statuses;
+  }
+
+  // Namespace of each title as the wiki normalizes it, without following
+  // redirects. Invalid titles are left out.
+  async getTitleNamespaces(titles: string[]): Promise<Map<string, number>> {
+    const namespaces = new Map<string, number>();
+    const unique = [...new Set(titles)];
+
+    for (let i = 0; i < unique.length; i += TITLES_PER_REQUEST) {
+      const batch = unique.slice(i, i + TITLES_PER_REQUEST);
+      const result = await this.cachedApiCall({
+        action: "query",
+        titles: batch.join("|")
+      });
+
+      const query = result.query ?? {};
+      const normalized = titleMap(query.normalized);
+      const pages = new Map<string, any>(
+        (query.pages ?? []).map((page: any) => [page.title, page])
+      );
+      for (const title of batch) {
+        const page = pages.get(normalized.get(title) ?? title);
+        if (page && !page.invalid) {
+          namespaces.set(title, page.ns);
+        }
+      }
+    }
+
+    return namespaces;
+  }
+
+  // Current wikitext of many pages, TITLES_PER_REQUEST titles per request,
+  // following redirects. Responses too large for one request are continued.
+  async getPages(
+    titles: string[]
+  ): Promise<{ pages: BatchPage[]; startTimestamp?: string }> {
+    const unique = [...new Set(titles)];
+    const pages: BatchPage[] = [];
+    let startTimestamp: string | undefined;
+
+    for (let i = 0; i < unique.length; i += TITLES_PER_REQUEST) {
+      const batch = unique.slice(i, i + TITLES_PER_REQUEST);
+      const normalized = new Map<string, string>();
+      const redirects = new Map<string, string>();
+      const byTitle = new Map<string, any>();
+
+      for await (const { response, items } of this.paginate<any>(
+        {
+          action: "query",
+          prop: "revisions",
+          titles: batch.join("|"),
+          redirects: true,
+          rvprop: "ids|content|timestamp|user|comment",
+          rvslots: "main",
+          curtimestamp: true
+        },
+        { items: (response) => response.query?.pages }
+      )) {
+        startTimestamp ??= response.curtimestamp;
+        titleMap(response.query?.normalized).forEach((to, from) =>
+          normalized.set(from, to)
+        );
+        titleMap(response.query?.redirects).forEach((to, from) =>
+          redirects.set(from, to)
+        );
+        // Each continuation repeats every page, but only some carry content
+        for (const page of items) {
+          if (!byTitle.get(page.title)?.revisions) {
+            byTitle.set(page.title, page);
+          }
+        }
+      }
+
+      for (const title of batch) {
+        const followed = followTitle(title, normalized, redirects);
+        pages.push({
+          title,
+          ...followed,
+          page: byTitle.get(followed.resolved)
+        });
+      }
+    }
+
+    return { pages, startTimestamp };
+  }
+
+  // Pages linking to a title. With blredirect, pages that link through a
+  // redirect come back nested under that redirect as "redirlinks".
+  async getBacklinks(
+    title: string,
+    options: LinkListOptions & { includeRedirects?: boolean } = {}
+  ): Promise<ListResult<any>> {
+    return this.queryList(
+      {
+        action: "query",
+        list: "backlinks",
+        bltitle: title,
+        blnamespace: options.namespaces?.join("|"),
+        blredirect: options.includeRedirects !== false
+      },
+      {
+        items: (response) => response.query?.backlinks,
+        limitParam: "bllimit",
+        maxItems: options.limit ?? 100,
+        cursor: options.cursor
+      }
+    );
+  }
+
+  // Outgoing wiki links of a page (following the page itself if it is a
+  // redirect)
+  async getLinks(
+    title: string,
+    options: LinkListOptions = {}
+  ): Promise<ListResult<any>> {
+    return this.queryList(
+      {
+        action: "query",
+        prop: "links",
+        titles: title,
+        redirects: true,
+        plnamespace: options.namespaces?.join("|")
+      },
+      {
+        items: (response) => response.query?.pages?.[0]?.links,
+        limitParam: "pllimit",
+        maxItems: options.limit ?? 100,
+        cursor: options.cursor
+      }
+    );
+  }
+
+  // Outgoing links of many pages, TITLES_PER_REQUEST titles per request,
+  // keyed by the requested title. Redirects are followed. A batch with more
+  // than maxLinks links per page is cut short and reported as truncated.
+  async getLinksOfPages(
+    titles: string[],
+    maxLinks: number
+  ): Promise<{ links: Map<string, any[]>; truncated: boolean }> {
+    const unique = [...new Set(titles)];
+    const links = new Map<string, any[]>();
+    let truncated = false;
+
+    for (let i = 0; i < unique.length; i += TITLES_PER_REQUEST) {
+      const batch = unique.slice(i, i + TITLES_PER_REQUEST);
+      const normalized = new Map<string, string>();
+      const redirects = new Map<string, string>();
+      const byTitle = new Map<string, any[]>();
+      let count = 0;
+
+      for await (const { response, items, continuation } of this.paginate<any>(
+        {
+          action: "query",
+          prop: "links",
+          titles: batch.join("|"),
+          redirects: true,
+          pllimit: "max"
+        },
+        { items: (response) => response.query?.pages }
+      )) {
+        titleMap(response.query?.normalized).forEach((to, from) =>
+          normalized.set(from, to)
+        );
+        titleMap(response.query?.redirects).forEach((to, from) =>
+          redirects.set(from, to)
+        );
+        // Each continuation repeats every page, with the next part of their
+        // links
+        for (const page of items) {
+          byTitle.set(page.title, [
+            ...(byTitle.get(page.title) ?? []),
+            ...(page.links ?? [])
+          ]);
+          count += page.links?.length ?? 0;
+        }
+        if (continuation && count >= maxLinks * batch.length) {
+          truncated = true;
+          break;
+        }
+      }
+
+      for (const title of batch) {
+        const { resolved } = followTitle(title, normalized, redirects);
+        links.set(title, byTitle.get(resolved) ?? []);
+      }
+    }
+
+    return { links, truncated };
+  }
+
+  // Pages that transclude a title (usually a template)
+  async getEmbeddedIn(
+    title: string,
+    options: LinkListOptions = {}
+  ): Promise<ListResult<any>> {
+    return this.queryList(
+      {
+        action: "query",
+        list: "embeddedin",
+        eititle: title,
+        einamespace: options.namespaces?.join("|")
+      },
+      {
+        items: (response) => response.query?.embeddedin,
+        limitParam: "eilimit",
+        maxItems: options.limit ?? 100,
+        cursor: options.cursor
+      }
+    );
+  }
+
+  // Pages (usually templates) transcluded by a page
+  async getTransclusions(
+    title: string,
+    options: LinkListOptions = {}
+  ): Promise<ListResult<any>> {
+    return this.queryList(
+      {
+        action: "query",
+        prop: "templates",
+        titles: title,
+        redirects: true,
+        tlnamespace: options.namespaces?.join("|")
+      },
+      {
+        items: (response) => response.query?.pages?.[0]?.templates,
+        limitParam: "tllimit",
+        maxItems: options.limit ?? 100,
+        cursor: options.cursor
+      }
+    );
+  }
+
+  // Special:LonelyPages / Special:DeadendPages. On large wikis these are
+  // served from a periodically refreshed cache.
+  async getQueryPage(
+    page: "Lonelypages" | "Deadendpages",
+    limit: number = 100,
+    cursor?: string
+  ): Promise<ListResult<any>> {
+    return this.queryList(
+      { action: "query", list: "querypage", qppage: page },
+      {
+        items: (response) => response.query?.querypage?.results,
+        limitParam: "qplimit",
+        maxItems: limit,
+        cursor
+      }
+    );
+  }
+
+  // Site name, MediaWiki version and namespaces. These hardly ever change, so
+  // the response is cached.
+  async getSiteInfo(): Promise<any> {
+    return this.cachedApiCall({
+      action: "query",
+      meta: "siteinfo",
+      siprop: "general|namespaces"
+    });
+  }
+
+  // Current time according to the wiki, as an ISO 8601 timestamp
+  async getServerTime(): Promise<string> {
+    const result = await this.makeApiCall({
+      action: "query",
+      curtimestamp: true
+    });
+    return result.curtimestamp;
+  }
+
+  async getRecentChanges(
+    options: ChangeListOptions & {
+      types?: string[];
+      user?: string;
+      excludeUser?: string;
+    } = {}
+  ): Promise<ListResult<any>> {
+    // Never cached: the point is to see changes as they happen
+    return this.queryList(
+      {
+        action: "query",
+        list: "recentchanges",
+        rcprop: CHANGE_PROPS,
+        rctype: options.types?.join("|") ?? "edit|new|log",
+        rcnamespace: options.namespaces?.join("|"),
+        rcuser: options.user,
+        rcexcludeuser: options.excludeUser,
+        rcshow: options.show?.join("|"),
+        rcstart: options.start,
+        rcend: options.end,
+        rcdir: options.dir ?? "older"
+      },
+      {
+        items: (response) => response.query?.recentchanges,
+        limitParam: "rclimit",
+        maxItems: options.limit ?? 50,
+        cursor: options.cursor,
+        cached: false
+      }
+    );
+  }
+
+  async getUserContributions(
+    user: string,
+    options: ChangeListOptions = {}
+  ): Promise<ListResult<any>> {
+    return this.queryList(
+      {
+        action: "query",
+        list: "usercontribs",
+        ucuser: user,
+        ucprop: "ids|title|timestamp|comment|size|sizediff|flags",
+        ucnamespace: options.namespaces?.join("|"),
+        ucshow: options.show?.join("|"),
+        ucstart: options.start,
+        ucend: options.end,
+        ucdir: options.dir ?? "older"
+      },
+      {
+        items: (response) => response.query?.usercontribs,
+        limitParam: "uclimit",
+        maxItems: options.limit ?? 50,
+        cursor: options.cursor,
+        cached: false
+      }
+    );
+  }
+
+  // Recent changes to the pages on the logged-in user's watchlist
+  async getWatchlist(
+    options: ChangeListOptions = {}
+  ): Promise<ListResult<any>> {
+    return this.queryList(
+      {
+        action: "query",
+        list: "watchlist",
+        wlprop: CHANGE_PROPS,
+        wlnamespace: options.namespaces?.join("|"),
+        wlshow: options.show?.join("|"),
+        wlstart: options.start,
+        wlend: options.end,
+        wldir: options.dir ?? "older"
+      },
+      {
+        items: (response) => response.query?.watchlist,
+        limitParam: "wllimit",
+        maxItems: options.limit ?? 50,
+        cursor: options.cursor,
+        cached: false
+      }
+    );
+  }
+
+  // The pages on the watchlist themselves
+  async getWatchedPages(
+    options: { namespaces?: number[]; limit?: number; cursor?: string } = {}
+  ): Promise<ListResult<any>> {
+    return this.queryList(
+      {
+        action: "query",
+        list: "watchlistraw",
+        wrnamespace: options.namespaces?.join("|")
+      },
+      {
+        // watchlistraw is reported next to "query", not inside it
+        items: (response) =>
+          response.watchlistraw ?? response.query?.watchlistraw,
+        limitParam: "wrlimit",
+        maxItems: options.limit ?? 500,
+        cursor: options.cursor,
+        cached: false
+      }
+    );
+  }
+
+  async setWatched(
+    titles: string[],
+    watched: boolean,
+    expiry?: string
+  ): Promise<any[]> {
+    const results: any[] = [];
+    for (let i = 0; i < titles.length; i += TITLES_PER_REQUEST) {
+      const response = await this.makeWriteCall(
+        {
+          action: "watch",
+          titles: titles.slice(i, i + TITLES_PER_REQUEST).join("|"),
+          unwatch: !watched,
+          expiry: watched ? expiry : undefined
+        },
+        "watch"
+      );
+      results.push(...response.watch);
+    }
+    return results;
+  }
+}
+
+// A configured wiki. Each has its own client, so sessions, tokens and cached
+// responses never leak from one wiki to another.
+interface WikiProfile extends WikiProfileConfig {
+  client: MediaWikiClient;
+  // Shared by every session so the wiki is polled once however many clients
+  // subscribe
+  watcher: RecentChangesWatcher;
+  // What the client talks to, for the startup messages
+  source: string;
+}
+
+// Without a profiles file, the command line and environment describe a
+// single wiki
+const profilesConfig: WikiProfilesConfig = PROFILES_FILE
+  ? loadWikiProfiles(PROFILES_FILE)
+  : {
+      defaultWiki: "default",
+      profiles: [
+        {
+          name: "default",
+          apiUrl: API_URL,
+          username: USERNAME,
+          password: PASSWORD,
+          oauthToken: OAUTH_TOKEN,
+          readOnly: false,
+          cookieFile: config.cookieFile
+        }
+      ]
+    };
+
+// The default wiki records to (and replays from) the fixture file as given;
+// other wikis get their name added before the extension
+const fixturePath = (filePath: string, profile: string): string => {
+  if (profile === profilesConfig.defaultWiki) {
+    return filePath;
+  }
+  const extension = path.extname(filePath);
+  return `${filePath.slice(0, filePath.length - extension.length)}.${profile}${extension}`;
+};
+
+// The fake wiki is only loaded when asked for
+const fakeWiki = argv.fakeWiki ? await import("./fake-wiki.js") : undefined;
+
+// Where API requests go: the wiki itself, the in-process fake wiki or a
+// recorded fixture, optionally recording whatever the first two answer
+const createTransport = (profile: WikiProfileConfig): ApiTransport => {
+  if (argv.replay) {
+    return replayTransport(fixturePath(argv.replay, profile.name));
+  }
+  const transport = fakeWiki
+    ? new fakeWiki.FakeMediaWiki(
+        profile.username || profile.oauthToken
+          ? [
+              {
+                // A BotPassword logs in as the user it belongs to
+                username: profile.username?.split("@")[0] ?? "Admin",
+                password: profile.password ?? "",
+                oauthToken: profile.oauthToken,
+                groups: ["sysop"]
+              }
+            ]
+          : []
+      ).transport
+    : fetchTransport;
+  return argv.record
+    ? recordingTransport(fixturePath(argv.record, profile.name), transport)
+    : transport;
+};
+
+const createWikiProfile = (profile: WikiProfileConfig): WikiProfile => {
+  const client = new MediaWikiClient(
+    profile.apiUrl,
+    profile.username,
+    profile.password,
+    {
+      cacheEnabled: config.cacheEnabled,
+      cacheTTL: config.cacheTTL,
+      cacheMaxEntries: config.cacheMaxEntries,
+      rateLimitWindow: config.rateLimitWindow,
+      rateLimitMaxRequests: config.rateLimitMaxRequests,
+      retryAttempts: config.retryAttempts,
+      maxlag: config.maxlag,
+      authTokenExpiry: config.authTokenExpiry,
+      cookieFile: profile.cookieFile,
+      oauthToken: profile.oauthToken,
+      transport: createTransport(profile),
+      downloads: !argv.replay && !argv.fakeWiki
+    }
+  );
+
+  return {
+    ...profile,
+    client,
+    watcher: new RecentChangesWatcher(client, config.rcPollInterval * 1000),
+    source: argv.replay
+      ? `recorded fixture ${fixturePath(argv.replay, profile.name)}`
+      : argv.fakeWiki
+        ? "in-process fake wiki"
+        : profile.apiUrl
+  };
+};
+
+// Initialize a MediaWiki client per wiki
+const wikis = new Map(
+  profilesConfig.profiles.map((profile) => [
+    profile.name,
+    createWikiProfile(profile)
+  ])
+);
+const defaultWiki = wikis.get(profilesConfig.defaultWiki)!;
+
+// The wiki a tool call should run against
+const getWiki = (name?: string): WikiProfile => {
+  const wiki = wikis.get(name ?? profilesConfig.defaultWiki);
+  if (!wiki) {
+    throw new Error(
+      `Unknown wiki "${name}". Available wikis: ${[...wikis.keys()].join(", ")}`
+    );
+  }
+  return wiki;
+};
+
+// Structured tool result for an edit that was rejected as a conflict
+const editConflictResponse = (
+  error: EditConflictError,
+  baseRevId?: number
+) => ({
+  content: [
+    {
+      type: "text",
+      text: JSON.stringify(
+        {
+          title: error.title,
+          result: "editconflict",
+          success: false,
+          message:
+            "The page was changed after baseRevId. Merge your edit into currentRevision.content and retry with its revId.",
+          baseRevId,
+          currentRevision: error.currentRevision ?? null
+        },
+        null,
+        2
+      )
+    }
+  ],
+  isError: true
+});
+
+// API errors that mean the account isn't allowed to do this, as opposed to
+// the request being wrong
+const PERMISSION_ERRORS = new Set([
+  "permissiondenied",
+  "protectedpage",
+  "cascadeprotected",
+  "protectednamespace",
+  "protectednamespace-interface",
+  "protectedtitle",
+  "blocked",
+  "autoblocked",
+  "cantmove",
+  "cantmove-anon",
+  "cantmove-titleprotected",
+  "cantdelete",
+  "cantundelete"
+]);
+
+// Images returned to clients as MCP image content
+const VIEWABLE_IMAGE_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp"
+];
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Structured tool result for an action the account lacks rights for, listing
+// the rights the wiki reports for the current user
+const permissionDeniedResponse = (
+  action: string,
+  userInfo: UserInfo,
+  missingRights: string[],
+  error?: MediaWikiApiError
+) => ({
+  content: [
+    {
+      type: "text",
+      text: JSON.stringify(
+        {
+          action,
+          result: "permissiondenied",
+          success: false,
+          message: error
+            ? error.info
+            : `User "${userInfo.name}" lacks the right(s) needed for ${action}: ${missingRights.join(", ")}`,
+          code: error?.code,
+          user: userInfo.name,
+          groups: userInfo.groups,
+          missingRights,
+          blocked: userInfo.blocked
+        },
+        null,
+        2
+      )
+    }
+  ],
+  isError: true
+});
+
+// Run a privileged action after checking the user has the rights it needs.
+// Missing rights, and permission errors from the wiki itself, come back as a
+// permissiondenied result instead of an exception.
+async function withRights(
+  client: MediaWikiClient,
+  action: string,
+  requiredRights: string[],
+  run: () => Promise<any>
+) {
+  const userInfo = await client.getUserInfo();
+  const missingRights = requiredRights.filter(
+    (right) => !userInfo.rights.includes(right)
+  );
+  if (missingRights.length > 0) {
+    return permissionDeniedResponse(action, userInfo, missingRights);
+  }
+
+  try {
+    return await run();
+  } catch (error) {
+    if (
+      error instanceof MediaWikiApiError &&
+      PERMISSION_ERRORS.has(error.code)
+    ) {
+      return permissionDeniedResponse(action, userInfo, [], error);
+    }
+    throw error;
+  }
+}
+
+interface SectionNode {
+  index: string;
+  number: string;
+  title: string;
+  level: number;
+  anchor: string;
+  transcludedFrom?: string;
+  children: SectionNode[];
+}
+
+// Turn the flat section list from action=parse into a tree using toclevel
+const buildSectionTree = (sections: any[]): SectionNode[] => {
+  const roots: SectionNode[] = [];
+  const stack: { level: number; node: SectionNode }[] = [];
+
+  for (const section of sections) {
+    const node: SectionNode = {
+      index: String(section.index),
+      number: section.number,
+      title: section.line,
+      level: Number(section.level),
+      anchor: section.anchor,
+      children: []
+    };
+    // Sections pulled in from templates have indexes like "T-1" and can only
+    // be edited on the template page
+    if (node.index.startsWith("T-")) {
+      node.transcludedFrom = section.fromtitle;
+    }
+
+    while (
+      stack.length > 0 &&
+      stack[stack.length - 1].level >= section.toclevel
+    ) {
+      stack.pop();
+    }
+    if (stack.length === 0) {
+      roots.push(node);
+    } else {
+      stack[stack.length - 1].node.children.push(node);
+    }
+    stack.push({ level: section.toclevel, node });
+  }
+
+  return roots;
+};
+
+// Pages are exposed as resources at wiki://page/{title}, optionally pinned to
+// a revision with wiki://page/{title}@{revid}. The title is URI-encoded, so an
+// "@" in the title itself never collides with the revision separator.
+const PAGE_URI_PREFIX = "wiki://page/";
+
+const pageUri = (title: string, revId?: number): string =>
+  `${PAGE_URI_PREFIX}${encodeURIComponent(title)}${
+    revId === undefined ? "" : `@${revId}`
+  }`;
+
+const parsePageUri = (
+  uri: string
+): { title: string; revId?: number } | undefined => {
+  if (!uri.startsWith(PAGE_URI_PREFIX)) {
+    return undefined;
+  }
+  const match = uri.slice(PAGE_URI_PREFIX.length).match(/^([^@]+)(?:@(\d+))?$/);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    return {
+      title: decodeURIComponent(match[1]),
+      revId: match[2] === undefined ? undefined : Number(match[2])
+    };
+  } catch {
+    return undefined;
+  }
+};
+
+interface CategoryTreeNode {
+  title: string;
+  pages?: string[];
+  subcategories: CategoryTreeNode[];
+  // Why this category's members were not listed, if they weren't
+  notExpanded?: "cycle" | "alreadyListed" | "maxDepth" | "maxCategories";
+  // Set when the category has more members than were fetched
+  truncated?: boolean;
+}
+
+const CATEGORY_TREE_MAX_MEMBERS = 5000;
+
+// Walk subcategories depth-first from a root category. Categories that are
+// their own ancestors are reported as cycles; categories reachable along
+// several paths are only expanded the first time they're seen.
+async function buildCategoryTree(
+  client: MediaWikiClient,
+  root: string,
+  options: { depth: number; includePages: boolean; maxCategories: number }
+): Promise<{
+  tree: CategoryTreeNode;
+  categoriesVisited: number;
+  truncated: boolean;
+}> {
+  const expanded = new Set<string>();
+  let truncated = false;
+
+  const visit = async (
+    title: string,
+    level: number,
+    ancestors: Set<string>
+  ): Promise<CategoryTreeNode> => {
+    const node: CategoryTreeNode = { title, subcategories: [] };
+    if (ancestors.has(title)) {
+      node.notExpanded = "cycle";
+      return node;
+    }
+    if (expanded.has(title)) {
+      node.notExpanded = "alreadyListed";
+      return node;
+    }
+    if (level > options.depth) {
+      node.notExpanded = "maxDepth";
+      return node;
+    }
+    if (expanded.size >= options.maxCategories) {
+      node.notExpanded = "maxCategories";
+      truncated = true;
+      return node;
+    }
+    expanded.add(title);
+
+    const members = await client.getCategoryMembers(title, {
+      types: options.includePages ? ["subcat", "page", "file"] : ["subcat"],
+      limit: CATEGORY_TREE_MAX_MEMBERS
+    });
+    if (members.truncated) {
+      node.truncated = true;
+      truncated = true;
+    }
+    if (options.includePages) {
+      node.pages = members.items
+        .filter((member) => member.ns !== CATEGORY_NAMESPACE)
+        .map((member) => member.title);
+    }
+
+    const path = new Set(ancestors).add(title);
+    for (const member of members.items) {
+      if (member.ns === CATEGORY_NAMESPACE) {
+        node.subcategories.push(await visit(member.title, level + 1, path));
+      }
+    }
+    return node;
+  };
+
+  const tree = await visit(categoryTitle(root), 0, new Set());
+  return { tree, categoriesVisited: expanded.size, truncated };
+}
+
+// The target of a backlink/transclusion query, after following a redirect.
+// Links to the redirect itself are found through blredirect instead.
+async function resolveLinkTarget(
+  client: MediaWikiClient,
+  title: string
+): Promise<{ target: string; redirectedFrom?: string; exists: boolean }> {
+  const status = (await client.resolveTitles([title])).get(title)!;
+  return {
+    target: status.resolved,
+    redirectedFrom: status.redirect ? title : undefined,
+    exists: status.exists
+  };
+}
+
+// Annotate link targets with whether they exist and where they redirect
+async function describeLinks(
+  client: MediaWikiClient,
+  links: { ns: number; title: string }[]
+) {
+  const statuses = await client.resolveTitles(links.map((link) => link.title));
+  return links.map((link) => {
+    const status = statuses.get(link.title)!;
+    return {
+      title: link.title,
+      namespace: link.ns,
+      exists: status.exists,
+      redirectsTo: status.redirect ? status.resolved : undefined
+    };
+  });
+}
+
+const RED_LINKS_MAX_LINKS_PER_PAGE = 5000;
+
+// Outgoing links that point at pages which don't exist (including redirects
+// to missing pages), for one page or every page in a category
+async function findRedLinks(
+  client: MediaWikiClient,
+  source: { title?: string; category?: string },
+  maxPages: number
+) {
+  let pages: string[];
+  let truncated = false;
+  if (source.category) {
+    const members = await client.getCategoryMembers(source.category, {
+      types: ["page"],
+      limit: maxPages
+    });
+    pages = members.items.map((member: any) => member.title);
+    truncated = members.truncated;
+  } else {
+    pages = [source.title!];
+  }
+
+  const linkedFrom = new Map<string, string[]>();
+  const links = await client.getLinksOfPages(
+    pages,
+    RED_LINKS_MAX_LINKS_PER_PAGE
+  );
+  truncated ||= links.truncated;
+  for (const page of pages) {
+    for (const link of links.links.get(page) ?? []) {
+      // Skip Special: and Media: links, which never have pages
+      if (link.ns < 0) {
+        continue;
+      }
+      const sources = linkedFrom.get(link.title) ?? [];
+      sources.push(page);
+      linkedFrom.set(link.title, sources);
+    }
+  }
+
+  const statuses = await client.resolveTitles([...linkedFrom.keys()]);
+  const redLinks = [...statuses.values()]
+    .filter((status) => !status.exists)
+    .sort((a, b) => a.title.localeCompare(b.title))
+    .map((status) => ({
+      title: status.title,
+      redirectsTo: status.redirect ? status.resolved : undefined,
+      invalid: status.invalid,
+      linkedFrom: linkedFrom.get(status.title)
+    }));
+
+  return {
+    pagesChecked: pages.length,
+    linksChecked: linkedFrom.size,
+    redLinks,
+    truncated
+  };
+}
+
+// Accept a relative time ("30m", "24h", "7d") wherever a timestamp is taken
+const parseTimeArgument = (value?: string): string | undefined => {
+  const match = value?.trim().match(/^(\d+)\s*([mhd])$/i);
+  if (!match) {
+    return value;
+  }
+  const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[
+    match[2].toLowerCase() as "m" | "h" | "d"
+  ];
+  return new Date(Date.now() - Number(match[1]) * unitMs)
+    .toISOString()
+    .replace(/\.\d{3}Z$/, "Z");
+};
+
+// bot/minor filters as rcshow/wlshow flags: true keeps only matching
+// changes, false excludes them. Undefined when there is nothing to filter.
+const showFlags = (
+  filters: Record<string, boolean | undefined>
+): string[] | undefined => {
+  const flags = Object.entries(filters)
+    .filter(([, value]) => value !== undefined)
+    .map(([flag, value]) => (value ? flag : `!${flag}`));
+  return flags.length > 0 ? flags : undefined;
+};
+
+// One entry of recentchanges or watchlist output
+const formatChange = (change: any) => ({
+  type: change.type,
+  title: change.title,
+  namespace: change.ns,
+  timestamp: change.timestamp,
+  user: change.user,
+  comment: change.comment,
+  revId: change.revid || undefined,
+  oldRevId: change.old_revid || undefined,
+  sizeChange:
+    change.newlen !== undefined && change.oldlen !== undefined
+      ? change.newlen - change.oldlen
+      : undefined,
+  minor: change.minor || undefined,
+  bot: change.bot || undefined,
+  new: change.new || undefined,
+  log: change.logtype
+    ? { type: change.logtype, action: change.logaction }
+    : undefined
+});
+
+// Tool definitions
+const SEARCH_PAGES_TOOL: Tool = {
+  name: "search_pages",
+  description: "Search for pages in the wiki using keywords",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Search query string"
+      },
+      limit: {
+        type: "number",
+        description:
+          "Maximum number of results to return (default: 10, max: 50)",
+        default: 10
+      },
+      offset: {
+        type: "number",
+        description: "Number of results to skip before the first one returned"
+      },
+      cursor: {
+        type: "string",
+        description: "nextCursor from a previous call, to fetch the next page"
+      },
+      namespaces: {
+        type: "array",
+        items: { type: "number" },
+        description:
+          "Namespace IDs to search (default: [0], the main namespace). E.g. 14 for categories, 6 for files"
+      },
+      what: {
+        type: "string",
+        enum: ["text", "title", "nearmatch"],
+        description:
+          "Search page text (default), titles only, or return a near-exact title match"
+      },
+      sort: {
+        type: "string",
+        enum: [
+          "relevance",
+          "last_edit_desc",
+          "last_edit_asc",
+          "create_timestamp_desc",
+          "create_timestamp_asc",
+          "incoming_links_desc",
+          "incoming_links_asc",
+          "just_match",
+          "none",
+          "random"
+        ],
+        description:
+          "Sort order (default: relevance). Requires CirrusSearch on the wiki"
+      },
+      qiProfile: {
+        type: "string",
+        description:
+          'Query-independent ranking profile (srqiprofile), e.g. "classic", "popular_inclinks", "engine_autoselect". Requires CirrusSearch'
+      }
+    },
+    required: ["query"]
+  }
+};
+
+const PREFIX_SEARCH_TOOL: Tool = {
+  name: "prefix_search",
+  description:
+    "Find page titles starting with a prefix (autocomplete). Use it to resolve an approximate title before calling read_page",
+  inputSchema: {
+    type: "object",
+    properties: {
+      prefix: {
+        type: "string",
+        description: "Beginning of the page title"
+      },
+      limit: {
+        type: "number",
+        description:
+          "Maximum number of titles to return (default: 10, max: 100)",
+        default: 10
+      },
+      offset: {
+        type: "number",
+        description: "Number of results to skip before the first one returned"
+      },
+      cursor: {
+        type: "string",
+        description: "nextCursor from a previous call, to fetch the next page"
+      },
+      namespaces: {
+        type: "array",
+        items: { type: "number" },
+        description: "Namespace IDs to search (default: [0])"
+      }
+    },
+    required: ["prefix"]
+  }
+};
+
+const READ_PAGE_TOOL: Tool = {
+  name: "read_page",
+  description:
+    "Fetch the content of a page as raw wikitext (default), rendered HTML, plain text or Markdown",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page to read"
+      },
+      format: {
+        type: "string",
+        enum: ["wikitext", "html", "text", "markdown"],
+        description:
+          "Output format. Use wikitext to edit the page; html, text or markdown expand templates and infoboxes for reading (default: wikitext)",
+        default: "wikitext"
+      }
+    },
+    required: ["title"]
+  }
+};
+
+const READ_PAGES_TOOL: Tool = {
+  name: "read_pages",
+  description:
+    "Fetch the wikitext of many pages at once (50 per request to the wiki). Redirects are followed, and missing pages and normalized titles are reported",
+  inputSchema: {
+    type: "object",
+    properties: {
+      titles: {
+        type: "array",
+        items: { type: "string" },
+        description: "Titles of the pages to read"
+      }
+    },
+    required: ["titles"]
+  }
+};
+
+const CREATE_PAGE_TOOL: Tool = {
+  name: "create_page",
+  description: "Create a new wiki page",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the new page"
+      },
+      content: {
+        type: "string",
+        description: "Wiki content for the new page"
+      },
+      summary: {
+        type: "string",
+        description: "Edit summary",
+        default: "Created via MCP"
+      }
+    },
+    required: ["title", "content"]
+  }
+};
+
+const UPDATE_PAGE_TOOL: Tool = {
+  name: "update_page",
+  description: "Update an existing wiki page",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page to update"
+      },
+      content: {
+        type: "string",
+        description: "New wiki content for the page"
+      },
+      summary: {
+        type: "string",
+        description: "Edit summary",
+        default: "Updated via MCP"
+      },
+      baseRevId: {
+        type: "number",
+        description:
+          "Revision ID the new content is based on (revisionId from read_page). If the page has changed since, the edit is rejected with an editconflict result instead of overwriting"
+      },
+      startTimestamp: {
+        type: "string",
+        description:
+          "Timestamp when you started editing (startTimestamp from read_page). Used to detect the page being deleted in the meantime"
+      }
+    },
+    required: ["title", "content"]
+  }
+};
+
+const BATCH_UPDATE_TOOL: Tool = {
+  name: "batch_update",
+  description:
+    "Apply a list of page edits one after another, returning a result for each. Edits go through the same rate limiting as single edits",
+  inputSchema: {
+    type: "object",
+    properties: {
+      edits: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            title: { type: "string", description: "Title of the page" },
+            content: { type: "string", description: "New wiki content" },
+            summary: {
+              type: "string",
+              description: "Edit summary for this edit (overrides summary)"
+            },
+            baseRevId: {
+              type: "number",
+              description:
+                "Revision ID the content is based on (from read_pages), to detect edit conflicts"
+            },
+            startTimestamp: {
+              type: "string",
+              description: "startTimestamp from read_pages"
+            }
+          },
+          required: ["title", "content"]
+        },
+        description: "Edits to apply, in order"
+      },
+      summary: {
+        type: "string",
+        description: "Edit summary for every edit",
+        default: "Updated via MCP"
+      },
+      onError: {
+        type: "string",
+        enum: ["stop", "continue"],
+        description:
+          'Whether a failed edit stops the batch ("stop", the default) or is skipped over ("continue")',
+        default: "stop"
+      }
+    },
+    required: ["edits"]
+  }
+};
+
+const GET_PAGE_HISTORY_TOOL: Tool = {
+  name: "get_page_history",
+  description: "Get revision history of a page",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page"
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of revisions to return (default: 10)",
+        default: 10
+      },
+      cursor: {
+        type: "string",
+        description: "nextCursor from a previous call, to fetch older revisions"
+      }
+    },
+    required: ["title"]
+  }
+};
+
+const GET_REVISION_TOOL: Tool = {
+  name: "get_revision",
+  description:
+    "Fetch the wikitext of a page as of a specific revision (revision IDs come from get_page_history)",
+  inputSchema: {
+    type: "object",
+    properties: {
+      revId: {
+        type: "number",
+        description: "Revision ID"
+      }
+    },
+    required: ["revId"]
+  }
+};
+
+const COMPARE_REVISIONS_TOOL: Tool = {
+  name: "compare_revisions",
+  description:
+    "Show the changes between two revisions as a unified diff, or between a revision and the current version of the page",
+  inputSchema: {
+    type: "object",
+    properties: {
+      fromRev: {
+        type: "number",
+        description: "Older revision ID"
+      },
+      toRev: {
+        type: "number",
+        description:
+          "Newer revision ID (default: the current revision of the page)"
+      },
+      context: {
+        type: "number",
+        description: "Lines of context around each change (default: 3)",
+        default: 3
+      }
+    },
+    required: ["fromRev"]
+  }
+};
+
+const REVERT_PAGE_TOOL: Tool = {
+  name: "revert_page",
+  description:
+    "Restore a page to an earlier revision (revId), or undo a single revision (undo) or a range of revisions (undo with undoAfter)",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page"
+      },
+      revId: {
+        type: "number",
+        description: "Restore the page content to this revision"
+      },
+      undo: {
+        type: "number",
+        description:
+          "Undo this revision. Fails with an undofailure result if later edits conflict"
+      },
+      undoAfter: {
+        type: "number",
+        description:
+          "With undo: undo every revision after this one, up to and including undo"
+      },
+      summary: {
+        type: "string",
+        description:
+          "Edit summary (default: generated from the revision being reverted)"
+      }
+    },
+    required: ["title"]
+  }
+};
+
+const MOVE_PAGE_TOOL: Tool = {
+  name: "move_page",
+  description:
+    "Move (rename) a page, optionally with its talk page and subpages",
+  inputSchema: {
+    type: "object",
+    properties: {
+      from: {
+        type: "string",
+        description: "Current title of the page"
+      },
+      to: {
+        type: "string",
+        description: "New title"
+      },
+      reason: {
+        type: "string",
+        description: "Reason for the move"
+      },
+      moveTalk: {
+        type: "boolean",
+        description: "Move the talk page too (default: true)",
+        default: true
+      },
+      moveSubpages: {
+        type: "boolean",
+        description: "Move subpages too (default: false)",
+        default: false
+      },
+      noRedirect: {
+        type: "boolean",
+        description:
+          "Don't leave a redirect at the old title (default: false). Requires the suppressredirect right",
+        default: false
+      }
+    },
+    required: ["from", "to"]
+  }
+};
+
+const DELETE_PAGE_TOOL: Tool = {
+  name: "delete_page",
+  description: "Delete a page",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page to delete"
+      },
+      reason: {
+        type: "string",
+        description: "Reason for the deletion"
+      }
+    },
+    required: ["title"]
+  }
+};
+
+const UNDELETE_PAGE_TOOL: Tool = {
+  name: "undelete_page",
+  description: "Restore a deleted page with all its deleted revisions",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the deleted page"
+      },
+      reason: {
+        type: "string",
+        description: "Reason for restoring the page"
+      }
+    },
+    required: ["title"]
+  }
+};
+
+const PROTECT_PAGE_TOOL: Tool = {
+  name: "protect_page",
+  description:
+    'Change the protection of a page. Levels are wiki-specific, typically "autoconfirmed" or "sysop"; "all" removes protection',
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page"
+      },
+      edit: {
+        type: "string",
+        description: "Who may edit the page"
+      },
+      move: {
+        type: "string",
+        description: "Who may move the page"
+      },
+      create: {
+        type: "string",
+        description: "Who may create the page (for titles that don't exist)"
+      },
+      expiry: {
+        type: "string",
+        description:
+          'When the protection expires, e.g. "1 week" or an ISO timestamp (default: "infinite")',
+        default: "infinite"
+      },
+      reason: {
+        type: "string",
+        description: "Reason for the protection change"
+      },
+      cascade: {
+        type: "boolean",
+        description:
+          "Also protect pages transcluded by this page (default: false)",
+        default: false
+      }
+    },
+    required: ["title"]
+  }
+};
+
+const PURGE_PAGE_TOOL: Tool = {
+  name: "purge_page",
+  description:
+    "Purge the rendered cache of pages, e.g. after changing a template they use",
+  inputSchema: {
+    type: "object",
+    properties: {
+      titles: {
+        type: "array",
+        items: { type: "string" },
+        description: "Titles of the pages to purge"
+      },
+      forceLinkUpdate: {
+        type: "boolean",
+        description:
+          "Also update the link tables (categories, backlinks) (default: false)",
+        default: false
+      },
+      forceRecursiveLinkUpdate: {
+        type: "boolean",
+        description:
+          "Update the link tables of every page transcluding these pages too (default: false)",
+        default: false
+      }
+    },
+    required: ["titles"]
+  }
+};
+
+const GET_CATEGORIES_TOOL: Tool = {
+  name: "get_categories",
+  description: "Get categories a page belongs to",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page"
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of categories to return (default: 500)",
+        default: 500
+      },
+      cursor: {
+        type: "string",
+        description: "nextCursor from a previous call, to fetch more categories"
+      }
+    },
+    required: ["title"]
+  }
+};
+
+const LIST_CATEGORY_MEMBERS_TOOL: Tool = {
+  name: "list_category_members",
+  description:
+    "List the pages, subcategories and files in a category, one batch at a time",
+  inputSchema: {
+    type: "object",
+    properties: {
+      category: {
+        type: "string",
+        description:
+          'Category name, with or without the "Category:" prefix (e.g. "Wizards")'
+      },
+      type: {
+        type: "array",
+        items: { type: "string", enum: ["page", "subcat", "file"] },
+        description: "Only return members of these types (default: all)"
+      },
+      sort: {
+        type: "string",
+        enum: ["sortkey", "timestamp"],
+        description:
+          "Sort by category sort key, or by when the member was added (default: sortkey)",
+        default: "sortkey"
+      },
+      dir: {
+        type: "string",
+        enum: ["asc", "desc"],
+        description: "Sort direction (default: asc)",
+        default: "asc"
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of members to return (default: 50)",
+        default: 50
+      },
+      cursor: {
+        type: "string",
+        description: "nextCursor from a previous call, to fetch the next batch"
+      }
+    },
+    required: ["category"]
+  }
+};
+
+const CATEGORY_TREE_TOOL: Tool = {
+  name: "category_tree",
+  description:
+    "Walk a category's subcategories recursively and return them as a tree, optionally with the pages in each",
+  inputSchema: {
+    type: "object",
+    properties: {
+      category: {
+        type: "string",
+        description: 'Root category, with or without the "Category:" prefix'
+      },
+      depth: {
+        type: "number",
+        description:
+          "How many levels of subcategories to expand below the root (default: 2)",
+        default: 2
+      },
+      includePages: {
+        type: "boolean",
+        description:
+          "Also list the pages and files in each category (default: false)",
+        default: false
+      },
+      maxCategories: {
+        type: "number",
+        description: "Stop expanding after this many categories (default: 100)",
+        default: 100
+      }
+    },
+    required: ["category"]
+  }
+};
+
+const GET_BACKLINKS_TOOL: Tool = {
+  name: "get_backlinks",
+  description:
+    'Find the pages that link to a page ("What links here"). Redirects to the page are followed, and pages linking through a redirect are included',
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page"
+      },
+      namespaces: {
+        type: "array",
+        items: { type: "number" },
+        description: "Only return linking pages in these namespaces"
+      },
+      includeRedirects: {
+        type: "boolean",
+        description:
+          "Include redirects to the page and the pages linking to them (default: true)",
+        default: true
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of pages to return (default: 100)",
+        default: 100
+      },
+      cursor: {
+        type: "string",
+        description: "nextCursor from a previous call, to fetch more pages"
+      }
+    },
+    required: ["title"]
+  }
+};
+
+const GET_LINKS_TOOL: Tool = {
+  name: "get_links",
+  description:
+    "List the wiki links on a page, with whether each target exists and where it redirects",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page"
+      },
+      namespaces: {
+        type: "array",
+        items: { type: "number" },
+        description: "Only return links to these namespaces"
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of links to return (default: 100)",
+        default: 100
+      },
+      cursor: {
+        type: "string",
+        description: "nextCursor from a previous call, to fetch more links"
+      }
+    },
+    required: ["title"]
+  }
+};
+
+const GET_TRANSCLUSIONS_TOOL: Tool = {
+  name: "get_transclusions",
+  description:
+    'List transclusions: the pages that use a template (direction "in", the default), or the templates a page uses (direction "out")',
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description:
+          'Full title, including the namespace for templates (e.g. "Template:Infobox wizard")'
+      },
+      direction: {
+        type: "string",
+        enum: ["in", "out"],
+        description:
+          '"in" for pages transcluding this page, "out" for pages this page transcludes (default: "in")',
+        default: "in"
+      },
+      namespaces: {
+        type: "array",
+        items: { type: "number" },
+        description: "Only return pages in these namespaces"
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of pages to return (default: 100)",
+        default: 100
+      },
+      cursor: {
+        type: "string",
+        description: "nextCursor from a previous call, to fetch more pages"
+      }
+    },
+    required: ["title"]
+  }
+};
+
+const FIND_RED_LINKS_TOOL: Tool = {
+  name: "find_red_links",
+  description:
+    "Check every outgoing link of a page, or of each page in a category, and report the links to pages that don't exist",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Page to check"
+      },
+      category: {
+        type: "string",
+        description:
+          'Check every page in this category instead (with or without the "Category:" prefix)'
+      },
+      maxPages: {
+        type: "number",
+        description: "Maximum number of category pages to check (default: 100)",
+        default: 100
+      }
+    }
+  }
+};
+
+const GET_LINK_REPORT_TOOL: Tool = {
+  name: "get_link_report",
+  description:
+    "List orphaned pages (no incoming links) or dead-end pages (no outgoing links). These reports may be cached by the wiki",
+  inputSchema: {
+    type: "object",
+    properties: {
+      report: {
+        type: "string",
+        enum: ["orphans", "deadends"],
+        description: "Which report to fetch"
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of pages to return (default: 100)",
+        default: 100
+      },
+      cursor: {
+        type: "string",
+        description: "nextCursor from a previous call, to fetch more pages"
+      }
+    },
+    required: ["report"]
+  }
+};
+
+const LIST_SECTIONS_TOOL: Tool = {
+  name: "list_sections",
+  description:
+    "List the sections of a page as a tree, with the index to use in read_section/update_section. Redirects are not followed",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page"
+      }
+    },
+    required: ["title"]
+  }
+};
+
+const READ_SECTION_TOOL: Tool = {
+  name: "read_section",
+  description: "Fetch the raw wikitext of a single section of a page",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page"
+      },
+      section: {
+        type: "number",
+        description:
+          "Section index from list_sections (0 is the lead section before the first heading)"
+      }
+    },
+    required: ["title", "section"]
+  }
+};
+
+const UPDATE_SECTION_TOOL: Tool = {
+  name: "update_section",
+  description:
+    'Replace a single section of a page, or append a new section with section set to "new"',
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page"
+      },
+      section: {
+        type: ["number", "string"],
+        description:
+          'Section index from list_sections, or "new" to append a new section at the end of the page'
+      },
+      content: {
+        type: "string",
+        description:
+          "New wikitext for the section, including its heading line (when appending, just the body)"
+      },
+      sectionTitle: {
+        type: "string",
+        description:
+          'Heading for the new section (required when section is "new")'
+      },
+      summary: {
+        type: "string",
+        description: "Edit summary",
+        default: "Updated section via MCP"
+      },
+      baseRevId: {
+        type: "number",
+        description:
+          "Revision ID the new content is based on (revisionId from read_section). If the page has changed since, the edit is rejected with an editconflict result"
+      },
+      startTimestamp: {
+        type: "string",
+        description:
+          "Timestamp when you started editing (startTimestamp from read_section)"
+      }
+    },
+    required: ["title", "section", "content"]
+  }
+};
+
+const PREVIEW_EDIT_TOOL: Tool = {
+  name: "preview_edit",
+  description:
+    "Dry run for create_page/update_page/update_section: show a unified diff against the current revision and the rendered HTML, without saving anything",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page to edit"
+      },
+      content: {
+        type: "string",
+        description:
+          "Proposed wiki content (for the whole page, or for the section)"
+      },
+      section: {
+        type: ["number", "string"],
+        description:
+          'Optional section index to preview a section edit, or "new" to preview appending a section'
+      },
+      sectionTitle: {
+        type: "string",
+        description: 'Heading for the new section when section is "new"'
+      },
+      includeHtml: {
+        type: "boolean",
+        description: "Include the rendered HTML preview (default: true)",
+        default: true
+      }
+    },
+    required: ["title", "content"]
+  }
+};
+
+const GET_TEMPLATES_TOOL: Tool = {
+  name: "get_templates",
+  description:
+    "Parse the templates used on a page (infoboxes etc.) into their named and positional parameters",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page"
+      },
+      template: {
+        type: "string",
+        description:
+          'Only return invocations of this template (e.g. "Infobox wizard")'
+      }
+    },
+    required: ["title"]
+  }
+};
+
+const SET_TEMPLATE_PARAM_TOOL: Tool = {
+  name: "set_template_param",
+  description:
+    "Set a single parameter of a template invocation on a page, leaving the rest of the page untouched",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the page"
+      },
+      template: {
+        type: "string",
+        description: 'Template name (e.g. "Infobox wizard")'
+      },
+      param: {
+        type: "string",
+        description:
+          'Parameter name, or its position ("1", "2", ...) for positional parameters'
+      },
+      value: {
+        type: "string",
+        description: "New value for the parameter"
+      },
+      occurrence: {
+        type: "number",
+        description:
+          "Which invocation of the template to change when the page uses it more than once (default: 1)",
+        default: 1
+      },
+      summary: {
+        type: "string",
+        description: "Edit summary (default: describes the parameter change)"
+      }
+    },
+    required: ["title", "template", "param", "value"]
+  }
+};
+
+const UPLOAD_FILE_TOOL: Tool = {
+  name: "upload_file",
+  description:
+    "Upload a file from a local path or base64 data. Large files are sent in chunks. If the wiki warns (e.g. the file is a duplicate or already exists), nothing is published and the result has a fileKey to finish the upload with ignoreWarnings",
+  inputSchema: {
+    type: "object",
+    properties: {
+      filename: {
+        type: "string",
+        description:
+          'Target file name without the "File:" prefix (default: the name of the local file)'
+      },
+      path: {
+        type: "string",
+        description: "Local path of the file to upload (stdio mode only)"
+      },
+      base64: {
+        type: "string",
+        description: "File contents, base64-encoded"
+      },
+      fileKey: {
+        type: "string",
+        description:
+          "fileKey from a previous upload that stopped at warnings, to publish it"
+      },
+      comment: {
+        type: "string",
+        description: "Upload summary"
+      },
+      text: {
+        type: "string",
+        description: "Wikitext for the description page of a new file"
+      },
+      ignoreWarnings: {
+        type: "boolean",
+        description: "Upload despite warnings (default: false)",
+        default: false
+      }
+    }
+  }
+};
+
+const GET_FILE_INFO_TOOL: Tool = {
+  name: "get_file_info",
+  description:
+    "Get a file's URL, size, MIME type, SHA-1 and uploader, and optionally the image itself",
+  inputSchema: {
+    type: "object",
+    properties: {
+      filename: {
+        type: "string",
+        description: 'File name, with or without the "File:" prefix'
+      },
+      includeImage: {
+        type: "boolean",
+        description:
+          "Also return the image (as a thumbnail) so it can be viewed (default: false)",
+        default: false
+      },
+      thumbWidth: {
+        type: "number",
+        description: "Width of the returned thumbnail in pixels (default: 800)",
+        default: 800
+      }
+    },
+    required: ["filename"]
+  }
+};
+
+const RECENT_CHANGES_TOOL: Tool = {
+  name: "recent_changes",
+  description:
+    "List recent changes across the wiki, newest first, filtered by namespace, type, user, bot/minor flags and time window",
+  inputSchema: {
+    type: "object",
+    properties: {
+      since: {
+        type: "string",
+        description:
+          'Oldest change to include: an ISO 8601 timestamp or a relative time such as "24h" or "7d"'
+      },
+      until: {
+        type: "string",
+        description: "Newest change to include (same formats as since)"
+      },
+      namespaces: {
+        type: "array",
+        items: { type: "number" },
+        description: "Only changes in these namespaces"
+      },
+      types: {
+        type: "array",
+        items: { type: "string", enum: ["edit", "new", "log", "categorize"] },
+        description: 'Kinds of changes (default: ["edit", "new", "log"])'
+      },
+      user: {
+        type: "string",
+        description: "Only changes by this user"
+      },
+      excludeUser: {
+        type: "string",
+        description: "Leave out changes by this user"
+      },
+      bot: {
+        type: "boolean",
+        description:
+          "true for only bot edits, false to leave bot edits out (default: both)"
+      },
+      minor: {
+        type: "boolean",
+        description:
+          "true for only minor edits, false to leave minor edits out (default: both)"
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of changes to return (default: 50)",
+        default: 50
+      },
+      cursor: {
+        type: "string",
+        description: "nextCursor from a previous call, to fetch older changes"
+      }
+    }
+  }
+};
+
+const USER_CONTRIBUTIONS_TOOL: Tool = {
+  name: "user_contributions",
+  description: "List the edits made by a user, newest first",
+  inputSchema: {
+    type: "object",
+    properties: {
+      user: {
+        type: "string",
+        description: "User name (or IP address)"
+      },
+      since: {
+        type: "string",
+        description:
+          'Oldest edit to include: an ISO 8601 timestamp or a relative time such as "24h" or "7d"'
+      },
+      until: {
+        type: "string",
+        description: "Newest edit to include (same formats as since)"
+      },
+      namespaces: {
+        type: "array",
+        items: { type: "number" },
+        description: "Only edits in these namespaces"
+      },
+      minor: {
+        type: "boolean",
+        description:
+          "true for only minor edits, false to leave minor edits out (default: both)"
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of edits to return (default: 50)",
+        default: 50
+      },
+      cursor: {
+        type: "string",
+        description: "nextCursor from a previous call, to fetch older edits"
+      }
+    },
+    required: ["user"]
+  }
+};
+
+const WATCHLIST_TOOL: Tool = {
+  name: "watchlist",
+  description:
+    'Work with the logged-in account\'s watchlist: recent changes to watched pages ("changes", the default), the watched pages themselves ("pages"), or add and remove pages ("watch", "unwatch")',
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["changes", "pages", "watch", "unwatch"],
+        description: 'What to do (default: "changes")',
+        default: "changes"
+      },
+      titles: {
+        type: "array",
+        items: { type: "string" },
+        description: "Pages to watch or unwatch"
+      },
+      expiry: {
+        type: "string",
+        description:
+          'For watch: how long to watch the pages, e.g. "1 month" (default: permanently)'
+      },
+      since: {
+        type: "string",
+        description:
+          'For changes: oldest change to include, as an ISO 8601 timestamp or a relative time such as "24h"'
+      },
+      namespaces: {
+        type: "array",
+        items: { type: "number" },
+        description: "For changes and pages: only these namespaces"
+      },
+      limit: {
+        type: "number",
+        description:
+          "For changes and pages: maximum number of entries (default: 50)",
+        default: 50
+      },
+      cursor: {
+        type: "string",
+        description: "nextCursor from a previous call, to fetch more"
+      }
+    }
+  }
+};
+
+const GET_CACHE_STATS_TOOL: Tool = {
+  name: "get_cache_stats",
+  description:
+    "Get response cache statistics (hits, misses, size) and optionally clear the cache",
+  inputSchema: {
+    type: "object",
+    properties: {
+      clear: {
+        type: "boolean",
+        description: "Clear the cache after reading the stats (default: false)",
+        default: false
+      }
+    }
+  }
+};
+
+const LIST_WIKIS_TOOL: Tool = {
+  name: "list_wikis",
+  description:
+    "List the configured wikis with their site name, MediaWiki version, namespaces, whether they are read-only, and how the server is authenticated on each (method, user and granted rights). Pass a wiki's name as the `wiki` argument of any other tool to use it.",
+  inputSchema: {
+    type: "object",
+    properties: {}
+  }
+};
+
+// Every tool except list_wikis can run against any configured wiki
+const withWikiArgument = (tool: Tool): Tool => ({
+  ...tool,
+  inputSchema: {
+    ...tool.inputSchema,
+    properties: {
+      ...tool.inputSchema.properties,
+      wiki: {
+        type: "string",
+        description: `Wiki to use (default: "${profilesConfig.defaultWiki}"); see list_wikis`,
+        enum: [...wikis.keys()]
+      }
+    }
+  }
+});
+
+// read_page for the rendered formats. Plain text comes from TextExtracts when
+// the wiki has it; everything else is converted from action=parse HTML.
+async function readRenderedPage(
+  wiki: WikiProfile,
+  title: string,
+  format: "html" | "text" | "markdown"
+) {
+  const missingPage = (pageTitle: string) => ({
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            title: pageTitle,
+            exists: false,
+            message: "Page does not exist"
+          },
+          null,
+          2
+        )
+      }
+    ]
+  });
+
+  if (format === "text") {
+    const result = await wiki.client.getPageExtract(title);
+    const page = result.query.pages[0];
+
+    if (page.missing) {
+      return missingPage(page.title);
+    }
+
+    if (page.extract !== undefined) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                title: page.title,
+                format,
+                source: "textextracts",
+                content: page.extract,
+                revisionId: page.revisions?.[0]?.revid
+              },
+              null,
+              2
+            )
+          }
+        ]
+      };
+    }
+  }
+
+  let result;
+  try {
+    result = await wiki.client.getRenderedPage(title);
+  } catch (error) {
+    if (error instanceof MediaWikiApiError && error.code === "missingtitle") {
+      return missingPage(title);
+    }
+    throw error;
+  }
+
+  const html: string = result.parse.text;
+  const content =
+    format === "html"
+      ? html
+      : format === "markdown"
+        ? htmlToMarkdown(html, { baseUrl: wiki.apiUrl })
+        : htmlToText(html);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            title: result.parse.title,
+            format,
+            source: "parse",
+            content,
+            revisionId: result.parse.revid
+          },
+          null,
+          2
+        )
+      }
+    ]
+  };
+}
+
+// The API key scope each tool needs; tools not listed only read the wiki
+const TOOL_SCOPES: Record<string, ApiScope> = {
+  create_page: "write",
+  update_page: "write",
+  batch_update: "write",
+  update_section: "write",
+  set_template_param: "write",
+  revert_page: "write",
+  move_page: "write",
+  purge_page: "write",
+  upload_file: "write",
+  delete_page: "admin",
+  undelete_page: "admin",
+  protect_page: "admin"
+};
+
+// The watchlist tool only changes the wiki when it watches or unwatches pages
+const requiredScope = (name: string, args?: { action?: string }): ApiScope =>
+  name === "watchlist"
+    ? ["watch", "unwatch"].includes(args?.action ?? "changes")
+      ? "write"
+      : "read"
+    : (TOOL_SCOPES[name] ?? "read");
+
+// stdio clients run on this machine, so they may use every tool
+const LOCAL_ACCESS: ApiKey = { name: "local", scope: "admin" };
+
+// Pages a write tool call would change
+const changedTitles = (name: string, args: any): string[] => {
+  switch (name) {
+    case "batch_update":
+      return (args.edits ?? []).map((edit: any) => edit.title);
+    case "move_page":
+      return [args.from, args.to];
+    case "purge_page":
+    case "watchlist":
+      return args.titles ?? [];
+    case "upload_file":
+      return args.filename
+        ? [`File:${args.filename.replace(/^File:/i, "")}`]
+        : [];
+    default:
+      return args.title === undefined ? [] : [args.title];
+  }
+};
+
+// Reject a write tool call that would change pages outside the namespaces an
+// API key is limited to
+async function checkNamespaces(
+  client: MediaWikiClient,
+  access: ApiKey,
+  name: string,
+  args: any
+): Promise<void> {
+  if (!access.namespaces) {
+    return;
+  }
+  const titles = changedTitles(name, args).filter(
+    (title): title is string => typeof title === "string"
+  );
+  if (titles.length === 0) {
+    return;
+  }
+
+  // Ask the wiki, so prefixes, aliases and leading colons are read the way
+  // it reads them
+  const namespaces = await client.getTitleNamespaces(titles);
+  const changed: [string, number | undefined][] = titles.map((title) => [
+    title,
+    namespaces.get(title)
+  ]);
+  // A move takes the talk page along unless told not to. Subpages are in the
+  // same namespace as their page, so they need no check of their own.
+  if (name === "move_page" && args.moveTalk !== false) {
+    for (const title of titles) {
+      const namespace = namespaces.get(title);
+      if (namespace !== undefined && namespace >= 0) {
+        changed.push([`talk page of ${title}`, namespace | 1]);
+      }
+    }
+  }
+
+  for (const [title, namespace] of changed) {
+    if (namespace === undefined) {
+      throw new Error(`Invalid title "${title}"`);
+    }
+    if (!access.namespaces.includes(namespace)) {
+      throw new Error(
+        `API key "${access.name}" may not change pages in namespace ${namespace} ("${title}")`
+      );
+    }
+  }
+}
+
+// Create and configure an MCP server. stdio mode uses a single instance, while
+// HTTP mode creates one per session because a Server can only be connected to
+// one transport at a time. The access is what the session's client may do.
+function createServer(access: ApiKey = LOCAL_ACCESS): Server {
+  const server = new Server(
+    {
+      name: "wizzypedia-mcp-server",
+      version: "1.0.3"
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true }
+      }
+    }
+  );
+
+  registerHandlers(server, access);
+  registerSubscriptionHandlers(server);
+  return server;
+}
+
+function registerHandlers(server: Server, access: ApiKey): void {
+  // Register the tools, leaving out those the client's scope doesn't cover
+  const allowed = (tool: Tool): boolean =>
+    scopeAllows(access.scope, requiredScope(tool.name));
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      LIST_WIKIS_TOOL,
+      ...[
+        SEARCH_PAGES_TOOL,
+        PREFIX_SEARCH_TOOL,
+        READ_PAGE_TOOL,
+        READ_PAGES_TOOL,
+        CREATE_PAGE_TOOL,
+        UPDATE_PAGE_TOOL,
+        BATCH_UPDATE_TOOL,
+        GET_PAGE_HISTORY_TOOL,
+        GET_REVISION_TOOL,
+        COMPARE_REVISIONS_TOOL,
+        REVERT_PAGE_TOOL,
+        MOVE_PAGE_TOOL,
+        DELETE_PAGE_TOOL,
+        UNDELETE_PAGE_TOOL,
+        PROTECT_PAGE_TOOL,
+        PURGE_PAGE_TOOL,
+        GET_CATEGORIES_TOOL,
+        LIST_CATEGORY_MEMBERS_TOOL,
+        CATEGORY_TREE_TOOL,
+        GET_BACKLINKS_TOOL,
+        GET_LINKS_TOOL,
+        GET_TRANSCLUSIONS_TOOL,
+        FIND_RED_LINKS_TOOL,
+        GET_LINK_REPORT_TOOL,
+        LIST_SECTIONS_TOOL,
+        READ_SECTION_TOOL,
+        UPDATE_SECTION_TOOL,
+        PREVIEW_EDIT_TOOL,
+        GET_TEMPLATES_TOOL,
+        SET_TEMPLATE_PARAM_TOOL,
+        UPLOAD_FILE_TOOL,
+        GET_FILE_INFO_TOOL,
+        RECENT_CHANGES_TOOL,
+        USER_CONTRIBUTIONS_TOOL,
+        WATCHLIST_TOOL,
+        GET_CACHE_STATS_TOOL
+      ].map(withWikiArgument)
+    ].filter(allowed)
+  }));
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    try {
+      // Clients often leave out the arguments of tools without parameters
+      request.params.arguments ??= {};
+
+      const args = request.params.arguments as {
+        wiki?: string;
+        action?: string;
+      };
+      const wiki = getWiki(args.wiki);
+      const wikiClient = wiki.client;
+
+      const scope = requiredScope(request.params.name, args);
+      if (!scopeAllows(access.scope, scope)) {
+        throw new Error(
+          `API key "${access.name}" has ${access.scope} scope; ${request.params.name} needs ${scope}`
+        );
+      }
+      if (scope !== "read") {
+        await checkNamespaces(wikiClient, access, request.params.name, args);
+      }
+
+      // Only require login for write operations
+      const writeOperations = [
+        "create_page",
+        "update_page",
+        "batch_update",
+        "update_section",
+        "set_template_param",
+        "revert_page",
+        "move_page",
+        "delete_page",
+        "undelete_page",
+        "protect_page",
+        "purge_page",
+        "upload_file",
+        // The watchlist belongs to the logged-in account, even for reading
+        "watchlist"
+      ];
+      if (writeOperations.includes(request.params.name)) {
+        // Reading the watchlist doesn't change the wiki
+        const readsOnly =
+          request.params.name === "watchlist" &&
+          !["watch", "unwatch"].includes(args.action ?? "changes");
+        if (wiki.readOnly && !readsOnly) {
+          throw new Error(`Wiki "${wiki.name}" is configured as read-only`);
+        }
+
+        const loginSuccess = await wikiClient.login();
+        if (!loginSuccess) {
+          throw new Error(
+            "Authentication required for write operations. Please configure a password or OAuth token for this wiki."
+          );
+        }
+      }
+
+      switch (request.params.name) {
+        case "list_wikis": {
+          const list = await Promise.all(
+            [...wikis.values()].map(async (profile) => {
+              const summary = {
+                name: profile.name,
+                default: profile === defaultWiki || undefined,
+                apiUrl: profile.apiUrl,
+                readOnly: profile.readOnly
+              };
+              try {
+                const { query } = await profile.client.getSiteInfo();
+                const userInfo = await profile.client.getUserInfo();
+                return {
+                  ...summary,
+                  auth: {
+                    method: profile.client.authMethod ?? "anonymous",
+                    user: userInfo.anonymous ? undefined : userInfo.name,
+                    groups: userInfo.groups,
+                    rights: userInfo.rights
+                  },
+                  siteName: query.general.sitename,
+                  mediaWikiVersion: query.general.generator,
+                  mainPage: query.general.mainpage,
+                  namespaces: Object.values(query.namespaces).map(
+                    (namespace: any) => ({
+                      id: namespace.id,
+                      name: namespace.name
+                    })
+                  )
+                };
+              } catch (error) {
+                return {
+                  ...summary,
+                  error: error instanceof Error ? error.message : String(error)
+                };
+              }
+            })
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ wikis: list }, null, 2)
+              }
+            ]
+          };
+        }
+
+        case "search_pages": {
+          const {
+            query,
+            limit = 10,
+            offset,
+            namespaces,
+            what,
+            sort,
+            qiProfile,
+            cursor
+          } = request.params.arguments as {
+            query: string;
+            limit?: number;
+            offset?: number;
+            cursor?: string;
+            namespaces?: number[];
+            what?: "title" | "text" | "nearmatch";
+            sort?: string;
+            qiProfile?: string;
+          };
+          const result = await wikiClient.searchPages(
+            query,
+            Math.min(limit, 50),
+            { offset, namespaces, what, sort, qiProfile, cursor }
+          );
+          const searchInfo = result.response.query?.searchinfo;
+
+          // Format search results in a readable way
+          const pages = result.items.map((page: any) => ({
+            title: page.title,
+            snippet: page.snippet,
+            size: page.size,
+            wordCount: page.wordcount,
+            timestamp: page.timestamp,
+            redirectTitle: page.redirecttitle,
+            sectionTitle: page.sectiontitle
+          }));
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    totalHits: searchInfo?.totalhits,
+                    suggestion: searchInfo?.suggestion,
+                    rewrittenQuery: searchInfo?.rewrittenquery,
+                    pages,
+                    truncated: result.truncated,
+                    nextCursor: result.cursor
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "prefix_search": {
+          const {
+            prefix,
+            limit = 10,
+            offset,
+            namespaces,
+            cursor
+          } = request.params.arguments as {
+            prefix: string;
+            limit?: number;
+            offset?: number;
+            namespaces?: number[];
+            cursor?: string;
+          };
+          const result = await wikiClient.prefixSearch(
+            prefix,
+            Math.min(limit, 100),
+            { offset, namespaces, cursor }
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    prefix,
+                    titles: result.items.map((page: any) => page.title),
+                    truncated: result.truncated,
+                    nextCursor: result.cursor
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "read_page": {
+          const { title, format = "wikitext" } = request.params.arguments as {
+            title: string;
+            format?: "wikitext" | "html" | "text" | "markdown";
+          };
+
+          if (format !== "wikitext") {
+            return await readRenderedPage(wiki, title, format);
+          }
+
+          const result = await wikiClient.getPage(title);
+
+          const pages = result.query.pages;
+          const page = pages[0];
+
+          if (page.missing) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      title: page.title,
+                      exists: false,
+                      message: "Page does not exist"
+                    },
+                    null,
+                    2
+                  )
+                }
+              ]
+            };
+          }
+
+          const revision = page.revisions[0];
+          const content = revision.slots.main.content;
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title: page.title,
+                    format: "wikitext",
+                    content: content,
+                    revisionId: revision.revid,
+                    startTimestamp: result.curtimestamp,
+                    lastEdit: {
+                      timestamp: revision.timestamp,
+                      user: revision.user,
+                      comment: revision.comment
+                    }
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "read_pages": {
+          const { titles } = request.params.arguments as { titles: string[] };
+          const { pages, startTimestamp } = await wikiClient.getPages(titles);
+
+          const results = pages.map(({ title, normalized, resolved, page }) => {
+            const revision = page?.revisions?.[0];
+            return {
+              title,
+              normalizedTitle: normalized !== title ? normalized : undefined,
+              redirectedTo: resolved !== normalized ? resolved : undefined,
+              exists: revision !== undefined,
+              invalid: page?.invalid ? page.invalidreason : undefined,
+              content: revision?.slots.main.content,
+              revisionId: revision?.revid,
+              lastEdit: revision
+                ? {
+                    timestamp: revision.timestamp,
+                    user: revision.user,
+                    comment: revision.comment
+                  }
+                : undefined
+            };
+          });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    startTimestamp,
+                    missing: results
+                      .filter((page) => !page.exists)
+                      .map((page) => page.title),
+                    pages: results
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "batch_update": {
+          const {
+            edits,
+            summary = "Updated via MCP",
+            onError = "stop"
+          } = request.params.arguments as {
+            edits: {
+              title: string;
+              content: string;
+              summary?: string;
+              baseRevId?: number;
+              startTimestamp?: string;
+            }[];
+            summary?: string;
+            onError?: "stop" | "continue";
+          };
+
+          // Edits run one at a time so each waits its turn in the client's
+          // rate limiter
+          const results: Record<string, any>[] = [];
+          let stopped = false;
+          for (const edit of edits) {
+            if (stopped) {
+              results.push({ title: edit.title, result: "skipped" });
+              continue;
+            }
+
+            try {
+              const result = await wikiClient.updatePage(
+                edit.title,
+                edit.content,
+                edit.summary ?? summary,
+                {
+                  baseRevId: edit.baseRevId,
+                  startTimestamp: edit.startTimestamp
+                }
+              );
+              results.push({
+                title: edit.title,
+                result: result.edit.result,
+                newRevId: result.edit.newrevid,
+                noChange: result.edit.nochange || undefined,
+                success: result.edit.result === "Success"
+              });
+              if (result.edit.result !== "Success") {
+                stopped = onError === "stop";
+              }
+            } catch (error) {
+              results.push(
+                error instanceof EditConflictError
+                  ? {
+                      title: edit.title,
+                      result: "editconflict",
+                      success: false,
+                      baseRevId: edit.baseRevId,
+                      currentRevId: error.currentRevision?.revId
+                    }
+                  : {
+                      title: edit.title,
+                      result: "error",
+                      success: false,
+                      error:
+                        error instanceof Error ? error.message : String(error)
+                    }
+              );
+              stopped = onError === "stop";
+            }
+          }
+
+          const succeeded = results.filter((result) => result.success).length;
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    succeeded,
+                    failed: results.filter((result) => result.success === false)
+                      .length,
+                    skipped: results.filter(
+                      (result) => result.result === "skipped"
+                    ).length,
+                    results
+                  },
+                  null,
+                  2
+                )
+              }
+            ],
+            isError: succeeded < edits.length
+          };
+        }
+
+        case "create_page": {
+          const {
+            title,
+            content,
+            summary = "Created via MCP"
+          } = request.params.arguments as {
+            title: string;
+            content: string;
+            summary?: string;
+          };
+
+          const result = await wikiClient.createPage(title, content, summary);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title,
+                    result: result.edit.result,
+                    newRevId: result.edit.newrevid,
+                    success: result.edit.result === "Success"
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "update_page": {
+          const {
+            title,
+            content,
+            summary = "Updated via MCP",
+            baseRevId,
+            startTimestamp
+          } = request.params.arguments as {
+            title: string;
+            content: string;
+            summary?: string;
+            baseRevId?: number;
+            startTimestamp?: string;
+          };
+
+          let result;
+          try {
+            result = await wikiClient.updatePage(title, content, summary, {
+              baseRevId,
+              startTimestamp
+            });
+          } catch (error) {
+            if (error instanceof EditConflictError) {
+              return editConflictResponse(error, baseRevId);
+            }
+            throw error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title,
+                    result: result.edit.result,
+                    newRevId: result.edit.newrevid,
+                    success: result.edit.result === "Success"
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "get_page_history": {
+          const {
+            title,
+            limit = 10,
+            cursor
+          } = request.params.arguments as {
+            title: string;
+            limit?: number;
+            cursor?: string;
+          };
+          const result = await wikiClient.getPageHistory(title, limit, cursor);
+
+          const page = result.response.query.pages[0];
+
+          if (page.missing) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      title: page.title,
+                      exists: false,
+                      message: "Page does not exist"
+                    },
+                    null,
+                    2
+                  )
+                }
+              ]
+            };
+          }
+
+          const revisions = result.items.map((rev: any) => ({
+            id: rev.revid,
+            timestamp: rev.timestamp,
+            user: rev.user,
+            comment: rev.comment
+          }));
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title: page.title,
+                    revisions,
+                    truncated: result.truncated,
+                    nextCursor: result.cursor
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "get_revision": {
+          const { revId } = request.params.arguments as { revId: number };
+          const result = await wikiClient.getRevisions([revId]);
+
+          const page = result.query.pages?.[0];
+
+          if (!page?.revisions) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      revId,
+                      exists: false,
+                      message: "Revision does not exist"
+                    },
+                    null,
+                    2
+                  )
+                }
+              ]
+            };
+          }
+
+          const revision = page.revisions[0];
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title: page.title,
+                    revId: revision.revid,
+                    parentId: revision.parentid,
+                    timestamp: revision.timestamp,
+                    user: revision.user,
+                    comment: revision.comment,
+                    size: revision.size,
+                    content: revision.slots.main.content
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "compare_revisions": {
+          const {
+            fromRev,
+            toRev,
+            context = 3
+          } = request.params.arguments as {
+            fromRev: number;
+            toRev?: number;
+            context?: number;
+          };
+          const { compare } = await wikiClient.compareRevisions(fromRev, toRev);
+
+          const result = await wikiClient.getRevisions([
+            compare.fromrevid,
+            compare.torevid
+          ]);
+          const contents = new Map<number, string>();
+          for (const page of result.query.pages ?? []) {
+            for (const revision of page.revisions ?? []) {
+              contents.set(revision.revid, revision.slots.main.content);
+            }
+          }
+
+          const fromContent = contents.get(compare.fromrevid) ?? "";
+          const toContent = contents.get(compare.torevid) ?? "";
+          const side = (prefix: "from" | "to") => ({
+            title: compare[`${prefix}title`],
+            revId: compare[`${prefix}revid`],
+            timestamp: compare[`${prefix}timestamp`],
+            user: compare[`${prefix}user`],
+            comment: compare[`${prefix}comment`],
+            size: compare[`${prefix}size`]
+          });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    from: side("from"),
+                    to: side("to"),
+                    stats: diffStats(fromContent, toContent),
+                    diff: createUnifiedDiff(fromContent, toContent, {
+                      oldLabel: `${compare.fromtitle} (r${compare.fromrevid})`,
+                      newLabel: `${compare.totitle} (r${compare.torevid})`,
+                      context
+                    })
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "revert_page": {
+          const { title, revId, undo, undoAfter, summary } = request.params
+            .arguments as {
+            title: string;
+            revId?: number;
+            undo?: number;
+            undoAfter?: number;
+            summary?: string;
+          };
+
+          if ((revId === undefined) === (undo === undefined)) {
+            throw new Error("Provide exactly one of revId or undo");
+          }
+
+          // Look up the revision being restored or undone, both to check it
+          // belongs to this page and to describe it in the summary
+          const target = (await wikiClient.getRevisions([(revId ?? undo)!]))
+            .query.pages?.[0];
+          if (!target?.revisions) {
+            throw new Error(`Revision ${revId ?? undo} does not exist`);
+          }
+          if (normalizeTitle(target.title) !== normalizeTitle(title)) {
+            throw new Error(
+              `Revision ${revId ?? undo} belongs to "${target.title}", not "${title}"`
+            );
+          }
+          const revision = target.revisions[0];
+
+          if (undo !== undefined) {
+            const undoSummary =
+              summary ??
+              (undoAfter === undefined
+                ? `Undo revision ${undo} by ${revision.user}`
+                : `Undo revisions after ${undoAfter} up to ${undo}`);
+
+            let result;
+            try {
+              result = await wikiClient.undoRevisions(title, undo, {
+                undoAfter,
+                summary: undoSummary
+              });
+            } catch (error) {
+              if (
+                error instanceof MediaWikiApiError &&
+                error.code === "undofailure"
+              ) {
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: JSON.stringify(
+                        {
+                          title,
+                          result: "undofailure",
+                          success: false,
+                          message:
+                            "The edit could not be undone because later edits changed the same text. Use revId to restore an earlier revision instead.",
+                          undo,
+                          undoAfter
+                        },
+                        null,
+                        2
+                      )
+                    }
+                  ],
+                  isError: true
+                };
+              }
+              throw error;
+            }
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      title,
+                      undo,
+                      undoAfter,
+                      summary: undoSummary,
+                      result: result.edit.result,
+                      newRevId: result.edit.newrevid,
+                      noChange: result.edit.nochange || undefined,
+                      success: result.edit.result === "Success"
+                    },
+                    null,
+                    2
+                  )
+                }
+              ]
+            };
+          }
+
+          const current = await wikiClient.getCurrentRevision(title);
+          if (!current) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      title,
+                      exists: false,
+                      message: "Page does not exist"
+                    },
+                    null,
+                    2
+                  )
+                }
+              ]
+            };
+          }
+
+          const restoreSummary =
+            summary ??
+            `Restore revision ${revId} by ${revision.user} (${revision.timestamp})`;
+
+          let result;
+          try {
+            result = await wikiClient.updatePage(
+              title,
+              revision.slots.main.content,
+              restoreSummary,
+              { baseRevId: current.revId }
+            );
+          } catch (error) {
+            if (error instanceof EditConflictError) {
+              return editConflictResponse(error, current.revId);
+            }
+            throw error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title,
+                    restoredRevId: revId,
+                    summary: restoreSummary,
+                    result: result.edit.result,
+                    newRevId: result.edit.newrevid,
+                    noChange: result.edit.nochange || undefined,
+                    success: result.edit.result === "Success"
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "move_page": {
+          const {
+            from,
+            to,
+            reason,
+            moveTalk = true,
+            moveSubpages = false,
+            noRedirect = false
+          } = request.params.arguments as {
+            from: string;
+            to: string;
+            reason?: string;
+            moveTalk?: boolean;
+            moveSubpages?: boolean;
+            noRedirect?: boolean;
+          };
+
+          const requiredRights = ["move"];
+          if (moveSubpages) {
+            requiredRights.push("move-subpages");
+          }
+          if (noRedirect) {
+            requiredRights.push("suppressredirect");
+          }
+
+          return await withRights(
+            wikiClient,
+            "move_page",
+            requiredRights,
+            async () => {
+              const { move } = await wikiClient.movePage(from, to, {
+                reason,
+                moveTalk,
+                moveSubpages,
+                noRedirect
+              });
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(
+                      {
+                        from: move.from,
+                        to: move.to,
+                        redirectCreated: move.redirectcreated ?? false,
+                        talk: move.talkfrom
+                          ? { from: move.talkfrom, to: move.talkto }
+                          : undefined,
+                        talkError: move["talkmove-errors"],
+                        subpages: move.subpages,
+                        success: true
+                      },
+                      null,
+                      2
+                    )
+                  }
+                ]
+              };
+            }
+          );
+        }
+
+        case "delete_page": {
+          const { title, reason } = request.params.arguments as {
+            title: string;
+            reason?: string;
+          };
+
+          return await withRights(
+            wikiClient,
+            "delete_page",
+            ["delete"],
+            async () => {
+              const result = await wikiClient.deletePage(title, reason);
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(
+                      {
+                        title: result.delete.title,
+                        reason: result.delete.reason,
+                        logId: result.delete.logid,
+                        success: true
+                      },
+                      null,
+                      2
+                    )
+                  }
+                ]
+              };
+            }
+          );
+        }
+
+        case "undelete_page": {
+          const { title, reason } = request.params.arguments as {
+            title: string;
+            reason?: string;
+          };
+
+          return await withRights(
+            wikiClient,
+            "undelete_page",
+            ["undelete"],
+            async () => {
+              const result = await wikiClient.undeletePage(title, reason);
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(
+                      {
+                        title: result.undelete.title,
+                        revisionsRestored: result.undelete.revisions,
+                        filesRestored: result.undelete.fileversions,
+                        success: true
+                      },
+                      null,
+                      2
+                    )
+                  }
+                ]
+              };
+            }
+          );
+        }
+
+        case "protect_page": {
+          const {
+            title,
+            edit,
+            move,
+            create,
+            expiry,
+            reason,
+            cascade = false
+          } = request.params.arguments as {
+            title: string;
+            edit?: string;
+            move?: string;
+            create?: string;
+            expiry?: string;
+            reason?: string;
+            cascade?: boolean;
+          };
+
+          const protections: Record<string, string> = {};
+          for (const [action, level] of Object.entries({
+            edit,
+            move,
+            create
+          })) {
+            if (level) {
+              protections[action] = level;
+            }
+          }
+          if (Object.keys(protections).length === 0) {
+            throw new Error("Provide at least one of edit, move or create");
+          }
+
+          return await withRights(
+            wikiClient,
+            "protect_page",
+            ["protect"],
+            async () => {
+              const result = await wikiClient.protectPage(title, protections, {
+                expiry,
+                reason,
+                cascade
+              });
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(
+                      {
+                        title: result.protect.title,
+                        protections: result.protect.protections,
+                        cascade: result.protect.cascade ?? false,
+                        success: true
+                      },
+                      null,
+                      2
+                    )
+                  }
+                ]
+              };
+            }
+          );
+        }
+
+        case "purge_page": {
+          const {
+            titles,
+            forceLinkUpdate = false,
+            forceRecursiveLinkUpdate = false
+          } = request.params.arguments as {
+            titles: string[];
+            forceLinkUpdate?: boolean;
+            forceRecursiveLinkUpdate?: boolean;
+          };
+
+          return await withRights(
+            wikiClient,
+            "purge_page",
+            ["purge"],
+            async () => {
+              const result = await wikiClient.purgePages(titles, {
+                forceLinkUpdate,
+                forceRecursiveLinkUpdate
+              });
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(
+                      {
+                        pages: result.purge.map((page: any) => ({
+                          title: page.title,
+                          purged: page.purged === true,
+                          linksUpdated: page.linkupdate === true,
+                          missing: page.missing || undefined
+                        }))
+                      },
+                      null,
+                      2
+                    )
+                  }
+                ]
+              };
+            }
+          );
+        }
+
+        case "upload_file": {
+          const {
+            filename,
+            path: localPath,
+            base64,
+            fileKey,
+            comment,
+            text,
+            ignoreWarnings = false
+          } = request.params.arguments as {
+            filename?: string;
+            path?: string;
+            base64?: string;
+            fileKey?: string;
+            comment?: string;
+            text?: string;
+            ignoreWarnings?: boolean;
+          };
+
+          if (
+            [localPath, base64, fileKey].filter((v) => v !== undefined)
+              .length !== 1
+          ) {
+            throw new Error("Provide exactly one of path, base64 or fileKey");
+          }
+          // Remote clients must not be able to publish the server's files
+          if (localPath !== undefined && SERVER_MODE === "http") {
+            throw new Error(
+              "Uploading from a local path is only available in stdio mode; send the file as base64"
+            );
+          }
+          const targetName =
+            filename ?? (localPath ? path.basename(localPath) : undefined);
+          if (!targetName) {
+            throw new Error("filename is required");
+          }
+
+          return await withRights(
+            wikiClient,
+            "upload_file",
+            ["upload"],
+            async () => {
+              const options = { comment, text, ignoreWarnings };
+              const result = fileKey
+                ? await wikiClient.commitUpload(targetName, fileKey, options)
+                : await wikiClient.uploadFile(
+                    targetName,
+                    localPath
+                      ? await fs.promises.readFile(localPath)
+                      : Buffer.from(base64!, "base64"),
+                    options
+                  );
+              const upload = result.upload;
+
+              if (upload.result === "Warning") {
+                return {
+                  content: [
+                    {
+                      type: "text",
+                      text: JSON.stringify(
+                        {
+                          filename: targetName,
+                          result: "Warning",
+                          success: false,
+                          message:
+                            "The file was not published because of the warnings below. Call upload_file again with this fileKey and ignoreWarnings: true to publish it anyway.",
+                          warnings: upload.warnings,
+                          fileKey: upload.filekey
+                        },
+                        null,
+                        2
+                      )
+                    }
+                  ],
+                  isError: true
+                };
+              }
+
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(
+                      {
+                        filename: upload.filename,
+                        result: upload.result,
+                        url: upload.imageinfo?.url,
+                        descriptionUrl: upload.imageinfo?.descriptionurl,
+                        size: upload.imageinfo?.size,
+                        sha1: upload.imageinfo?.sha1,
+                        success: upload.result === "Success"
+                      },
+                      null,
+                      2
+                    )
+                  }
+                ]
+              };
+            }
+          );
+        }
+
+        case "get_file_info": {
+          const {
+            filename,
+            includeImage = false,
+            thumbWidth = 800
+          } = request.params.arguments as {
+            filename: string;
+            includeImage?: boolean;
+            thumbWidth?: number;
+          };
+          const result = await wikiClient.getFileInfo(filename, thumbWidth);
+
+          const page = result.query.pages[0];
+          // Files from a shared repository (e.g. Commons) have imageinfo
+          // even though there is no local page
+          const info = page.imageinfo?.[0];
+
+          if (!info) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      title: page.title,
+                      exists: false,
+                      message: "File does not exist"
+                    },
+                    null,
+                    2
+                  )
+                }
+              ]
+            };
+          }
+
+          const content: any[] = [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  title: page.title,
+                  url: info.url,
+                  descriptionUrl: info.descriptionurl,
+                  thumbUrl: info.thumburl,
+                  mime: info.mime,
+                  size: info.size,
+                  width: info.width,
+                  height: info.height,
+                  sha1: info.sha1,
+                  uploader: info.user,
+                  timestamp: info.timestamp,
+                  comment: info.comment,
+                  repository: page.imagerepository
+                },
+                null,
+                2
+              )
+            }
+          ];
+
+          if (includeImage) {
+            try {
+              // The thumbnail is a web-friendly rendering even for SVGs, TIFFs
+              // and PDFs
+              const image = await wikiClient.downloadFile(
+                info.thumburl ?? info.url,
+                MAX_IMAGE_BYTES
+              );
+              if (!VIEWABLE_IMAGE_TYPES.includes(image.mimeType)) {
+                throw new Error(`${image.mimeType} can't be shown as an image`);
+              }
+              content.push({
+                type: "image",
+                data: image.data.toString("base64"),
+                mimeType: image.mimeType
+              });
+            } catch (error) {
+              content.push({
+                type: "text",
+                text: `Image not included: ${
+                  error instanceof Error ? error.message : String(error)
+                }`
+              });
+            }
+          }
+
+          return { content };
+        }
+
+        case "recent_changes": {
+          const {
+            since,
+            until,
+            namespaces,
+            types,
+            user,
+            excludeUser,
+            bot,
+            minor,
+            limit = 50,
+            cursor
+          } = request.params.arguments as {
+            since?: string;
+            until?: string;
+            namespaces?: number[];
+            types?: string[];
+            user?: string;
+            excludeUser?: string;
+            bot?: boolean;
+            minor?: boolean;
+            limit?: number;
+            cursor?: string;
+          };
+          const result = await wikiClient.getRecentChanges({
+            start: parseTimeArgument(until),
+            end: parseTimeArgument(since),
+            namespaces,
+            types,
+            user,
+            excludeUser,
+            show: showFlags({ bot, minor }),
+            limit,
+            cursor
+          });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    changes: result.items.map(formatChange),
+                    truncated: result.truncated,
+                    nextCursor: result.cursor
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "user_contributions": {
+          const {
+            user,
+            since,
+            until,
+            namespaces,
+            minor,
+            limit = 50,
+            cursor
+          } = request.params.arguments as {
+            user: string;
+            since?: string;
+            until?: string;
+            namespaces?: number[];
+            minor?: boolean;
+            limit?: number;
+            cursor?: string;
+          };
+          const result = await wikiClient.getUserContributions(user, {
+            start: parseTimeArgument(until),
+            end: parseTimeArgument(since),
+            namespaces,
+            show: showFlags({ minor }),
+            limit,
+            cursor
+          });
+
+          const contributions = result.items.map((contribution: any) => ({
+            title: contribution.title,
+            namespace: contribution.ns,
+            timestamp: contribution.timestamp,
+            comment: contribution.comment,
+            revId: contribution.revid,
+            parentId: contribution.parentid,
+            sizeChange: contribution.sizediff,
+            minor: contribution.minor || undefined,
+            new: contribution.new || undefined,
+            current: contribution.top || undefined
+          }));
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    user,
+                    contributions,
+                    truncated: result.truncated,
+                    nextCursor: result.cursor
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "watchlist": {
+          const {
+            action = "changes",
+            titles,
+            expiry,
+            since,
+            namespaces,
+            limit = 50,
+            cursor
+          } = request.params.arguments as {
+            action?: "changes" | "pages" | "watch" | "unwatch";
+            titles?: string[];
+            expiry?: string;
+            since?: string;
+            namespaces?: number[];
+            limit?: number;
+            cursor?: string;
+          };
+
+          if (action === "watch" || action === "unwatch") {
+            if (!titles || titles.length === 0) {
+              throw new Error(`titles is required for ${action}`);
+            }
+            const results = await wikiClient.setWatched(
+              titles,
+              action === "watch",
+              expiry
+            );
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      action,
+                      pages: results.map((page: any) => ({
+                        title: page.title,
+                        watched: page.watched === true,
+                        expiry: page.expiry,
+                        missing: page.missing || undefined
+                      }))
+                    },
+                    null,
+                    2
+                  )
+                }
+              ]
+            };
+          }
+
+          if (action === "pages") {
+            const result = await wikiClient.getWatchedPages({
+              namespaces,
+              limit,
+              cursor
+            });
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      action,
+                      pages: result.items.map((page: any) => page.title),
+                      truncated: result.truncated,
+                      nextCursor: result.cursor
+                    },
+                    null,
+                    2
+                  )
+                }
+              ]
+            };
+          }
+
+          const result = await wikiClient.getWatchlist({
+            end: parseTimeArgument(since),
+            namespaces,
+            limit,
+            cursor
+          });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    action,
+                    changes: result.items.map(formatChange),
+                    truncated: result.truncated,
+                    nextCursor: result.cursor
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "get_categories": {
+          const {
+            title,
+            limit = 500,
+            cursor
+          } = request.params.arguments as {
+            title: string;
+            limit?: number;
+            cursor?: string;
+          };
+          const result = await wikiClient.getCategories(title, limit, cursor);
+
+          const page = result.response.query.pages[0];
+
+          if (page.missing) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      title: page.title,
+                      exists: false,
+                      message: "Page does not exist"
+                    },
+                    null,
+                    2
+                  )
+                }
+              ]
+            };
+          }
+
+          const categories = result.items.map((cat: any) => cat.title);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title: page.title,
+                    categories,
+                    truncated: result.truncated,
+                    nextCursor: result.cursor
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "get_backlinks": {
+          const {
+            title,
+            namespaces,
+            includeRedirects = true,
+            limit = 100,
+            cursor
+          } = request.params.arguments as {
+            title: string;
+            namespaces?: number[];
+            includeRedirects?: boolean;
+            limit?: number;
+            cursor?: string;
+          };
+          const { target, redirectedFrom } = await resolveLinkTarget(
+            wikiClient,
+            title
+          );
+          const result = await wikiClient.getBacklinks(target, {
+            namespaces,
+            includeRedirects,
+            limit,
+            cursor
+          });
+
+          // Flatten pages that link through a redirect next to the rest
+          const backlinks = result.items.flatMap((link: any) => [
             {
-              type: "text",
-              text: JSON.stringify(
+              title: link.title,
+              namespace: link.ns,
+              redirect: link.redirect || undefined
+            },
+            ...(link.redirlinks ?? []).map((via: any) => ({
+              title: via.title,
+              namespace: via.ns,
+              via: link.title
+            }))
+          ]);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title: target,
+                    redirectedFrom,
+                    backlinks,
+                    truncated: result.truncated,
+                    nextCursor: result.cursor
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "get_links": {
+          const {
+            title,
+            namespaces,
+            limit = 100,
+            cursor
+          } = request.params.arguments as {
+            title: string;
+            namespaces?: number[];
+            limit?: number;
+            cursor?: string;
+          };
+          const result = await wikiClient.getLinks(title, {
+            namespaces,
+            limit,
+            cursor
+          });
+
+          const page = result.response.query.pages[0];
+
+          if (page.missing) {
+            return {
+              content: [
                 {
-                  title: page.title,
-                  content: content,
-                  lastEdit: {
-                    timestamp: revision.timestamp,
-                    user: revision.user,
-                    comment: revision.comment
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      title: page.title,
+                      exists: false,
+                      message: "Page does not exist"
+                    },
+                    null,
+                    2
+                  )
+                }
+              ]
+            };
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title: page.title,
+                    links: await describeLinks(wikiClient, result.items),
+                    truncated: result.truncated,
+                    nextCursor: result.cursor
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "get_transclusions": {
+          const {
+            title,
+            direction = "in",
+            namespaces,
+            limit = 100,
+            cursor
+          } = request.params.arguments as {
+            title: string;
+            direction?: "in" | "out";
+            namespaces?: number[];
+            limit?: number;
+            cursor?: string;
+          };
+
+          if (direction === "out") {
+            const result = await wikiClient.getTransclusions(title, {
+              namespaces,
+              limit,
+              cursor
+            });
+            const page = result.response.query.pages[0];
+
+            if (page.missing) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(
+                      {
+                        title: page.title,
+                        exists: false,
+                        message: "Page does not exist"
+                      },
+                      null,
+                      2
+                    )
                   }
-                },
-                null,
-                2
-              )
+                ]
+              };
             }
-          ]
-        };
-      }
 
-      case "create_page": {
-        const {
-          title,
-          content,
-          summary = "Created via MCP"
-        } = request.params.arguments as {
-          title: string;
-          content: string;
-          summary?: string;
-        };
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      title: page.title,
+                      direction,
+                      transcludes: await describeLinks(
+                        wikiClient,
+                        result.items
+                      ),
+                      truncated: result.truncated,
+                      nextCursor: result.cursor
+                    },
+                    null,
+                    2
+                  )
+                }
+              ]
+            };
+          }
 
-        const result = await wikiClient.createPage(title, content, summary);
+          const { target, redirectedFrom } = await resolveLinkTarget(
+            wikiClient,
+            title
+          );
+          const result = await wikiClient.getEmbeddedIn(target, {
+            namespaces,
+            limit,
+            cursor
+          });
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title: target,
+                    redirectedFrom,
+                    direction,
+                    transcludedBy: result.items.map((page: any) => ({
+                      title: page.title,
+                      namespace: page.ns
+                    })),
+                    truncated: result.truncated,
+                    nextCursor: result.cursor
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "find_red_links": {
+          const {
+            title,
+            category,
+            maxPages = 100
+          } = request.params.arguments as {
+            title?: string;
+            category?: string;
+            maxPages?: number;
+          };
+
+          if (!title === !category) {
+            throw new Error("Provide exactly one of title or category");
+          }
+
+          if (title) {
+            const { target, exists } = await resolveLinkTarget(
+              wikiClient,
+              title
+            );
+            if (!exists) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: JSON.stringify(
+                      {
+                        title: target,
+                        exists: false,
+                        message: "Page does not exist"
+                      },
+                      null,
+                      2
+                    )
+                  }
+                ]
+              };
+            }
+          }
+
+          const report = await findRedLinks(
+            wikiClient,
+            { title, category },
+            maxPages
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title,
+                    category: category ? categoryTitle(category) : undefined,
+                    ...report
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "get_link_report": {
+          const {
+            report,
+            limit = 100,
+            cursor
+          } = request.params.arguments as {
+            report: "orphans" | "deadends";
+            limit?: number;
+            cursor?: string;
+          };
+          const result = await wikiClient.getQueryPage(
+            report === "orphans" ? "Lonelypages" : "Deadendpages",
+            limit,
+            cursor
+          );
+          const querypage = result.response.query?.querypage ?? {};
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    report,
+                    cachedAt: querypage.cached
+                      ? querypage.cachedtimestamp
+                      : undefined,
+                    pages: result.items.map((page: any) => ({
+                      title: page.title,
+                      namespace: page.ns
+                    })),
+                    truncated: result.truncated,
+                    nextCursor: result.cursor
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "list_sections": {
+          const { title } = request.params.arguments as { title: string };
+          const result = await wikiClient.getSections(title);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title: result.parse.title,
+                    sections: buildSectionTree(result.parse.sections)
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "read_section": {
+          const { title, section } = request.params.arguments as {
+            title: string;
+            section: number;
+          };
+          const result = await wikiClient.getPage(title, { section });
+
+          const page = result.query.pages[0];
+
+          if (page.missing) {
+            return {
+              content: [
                 {
-                  title,
-                  result: result.edit.result,
-                  newRevId: result.edit.newrevid,
-                  success: result.edit.result === "Success"
-                },
-                null,
-                2
-              )
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      title: page.title,
+                      exists: false,
+                      message: "Page does not exist"
+                    },
+                    null,
+                    2
+                  )
+                }
+              ]
+            };
+          }
+
+          const revision = page.revisions[0];
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title: page.title,
+                    section,
+                    content: revision.slots.main.content,
+                    revisionId: revision.revid,
+                    startTimestamp: result.curtimestamp
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "update_section": {
+          const {
+            title,
+            section,
+            content,
+            sectionTitle,
+            summary = "Updated section via MCP",
+            baseRevId,
+            startTimestamp
+          } = request.params.arguments as {
+            title: string;
+            section: number | string;
+            content: string;
+            sectionTitle?: string;
+            summary?: string;
+            baseRevId?: number;
+            startTimestamp?: string;
+          };
+
+          if (section === "new" && !sectionTitle) {
+            throw new Error('sectionTitle is required when section is "new"');
+          }
+          if (section !== "new" && !Number.isInteger(Number(section))) {
+            throw new Error(
+              'section must be a section index from list_sections or "new"'
+            );
+          }
+
+          let result;
+          try {
+            result = await wikiClient.updatePage(title, content, summary, {
+              baseRevId,
+              startTimestamp,
+              section,
+              sectionTitle
+            });
+          } catch (error) {
+            if (error instanceof EditConflictError) {
+              return editConflictResponse(error, baseRevId);
             }
-          ]
-        };
-      }
+            throw error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title,
+                    section,
+                    result: result.edit.result,
+                    newRevId: result.edit.newrevid,
+                    success: result.edit.result === "Success"
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "preview_edit": {
+          const {
+            title,
+            content,
+            section,
+            sectionTitle,
+            includeHtml = true
+          } = request.params.arguments as {
+            title: string;
+            content: string;
+            section?: number | string;
+            sectionTitle?: string;
+            includeHtml?: boolean;
+          };
+
+          // Compare against the latest revision (or section), not a cached one
+          const current = await wikiClient.getCurrentRevision(title);
+          let currentContent = current?.content ?? "";
+          let proposedContent = content;
+
+          if (section === "new") {
+            proposedContent = sectionTitle
+              ? `== ${sectionTitle} ==\n\n${content}`
+              : content;
+            currentContent = "";
+          } else if (section !== undefined && current) {
+            const sectionResult = await wikiClient.getPage(title, { section });
+            currentContent =
+              sectionResult.query.pages[0].revisions[0].slots.main.content;
+          }
+
+          const label = section === undefined ? title : `${title}#${section}`;
+          const diff = createUnifiedDiff(currentContent, proposedContent, {
+            oldLabel: current ? `${label} (r${current.revId})` : "/dev/null",
+            newLabel: `${label} (proposed)`
+          });
+
+          let html: string | undefined;
+          if (includeHtml) {
+            const parsed = await wikiClient.parseWikitext(
+              title,
+              proposedContent
+            );
+            html = parsed.parse.text;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title,
+                    exists: current !== undefined,
+                    baseRevId: current?.revId,
+                    section,
+                    changed: diff !== "",
+                    stats: diffStats(currentContent, proposedContent),
+                    diff,
+                    html
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "list_category_members": {
+          const {
+            category,
+            type,
+            sort = "sortkey",
+            dir = "asc",
+            limit = 50,
+            cursor
+          } = request.params.arguments as {
+            category: string;
+            type?: CategoryMemberType[];
+            sort?: "sortkey" | "timestamp";
+            dir?: "asc" | "desc";
+            limit?: number;
+            cursor?: string;
+          };
+          const result = await wikiClient.getCategoryMembers(category, {
+            types: type,
+            sort,
+            dir,
+            limit,
+            cursor
+          });
+
+          const members = result.items.map((member: any) => ({
+            title: member.title,
+            pageId: member.pageid,
+            namespace: member.ns,
+            type: member.type,
+            sortKeyPrefix: member.sortkeyprefix || undefined,
+            added: member.timestamp
+          }));
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    category: categoryTitle(category),
+                    members,
+                    truncated: result.truncated,
+                    nextCursor: result.cursor
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
+
+        case "category_tree": {
+          const {
+            category,
+            depth = 2,
+            includePages = false,
+            maxCategories = 100
+          } = request.params.arguments as {
+            category: string;
+            depth?: number;
+            includePages?: boolean;
+            maxCategories?: number;
+          };
+          const { tree, categoriesVisited, truncated } =
+            await buildCategoryTree(wikiClient, category, {
+              depth,
+              includePages,
+              maxCategories
+            });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  { categoriesVisited, truncated, tree },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
 
-      case "update_page": {
-        const {
-          title,
-          content,
-          summary = "Updated via MCP"
-        } = request.params.arguments as {
-          title: string;
-          content: string;
-          summary?: string;
-        };
+        case "get_templates": {
+          const { title, template } = request.params.arguments as {
+            title: string;
+            template?: string;
+          };
+          const result = await wikiClient.getPage(title);
 
-        const result = await wikiClient.updatePage(title, content, summary);
+          const page = result.query.pages[0];
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
+          if (page.missing) {
+            return {
+              content: [
                 {
-                  title,
-                  result: result.edit.result,
-                  newRevId: result.edit.newrevid,
-                  success: result.edit.result === "Success"
-                },
-                null,
-                2
-              )
-            }
-          ]
-        };
-      }
-
-      case "get_page_history": {
-        const { title, limit = 10 } = request.params.arguments as {
-          title: string;
-          limit?: number;
-        };
-        const result = await wikiClient.getPageHistory(title, limit);
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      title: page.title,
+                      exists: false,
+                      message: "Page does not exist"
+                    },
+                    null,
+                    2
+                  )
+                }
+              ]
+            };
+          }
 
-        const pages = result.query.pages;
-        const page = pages[0];
+          const revision = page.revisions[0];
+          const occurrences = new Map<string, number>();
+          const templates = parseTemplates(revision.slots.main.content)
+            .map((invocation) => {
+              const occurrence = (occurrences.get(invocation.name) ?? 0) + 1;
+              occurrences.set(invocation.name, occurrence);
+              return { ...invocation, occurrence };
+            })
+            .filter(
+              (invocation) =>
+                !template || invocation.name === normalizeTemplateName(template)
+            );
 
-        if (page.missing) {
           return {
             content: [
               {
@@ -791,8 +6096,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 text: JSON.stringify(
                   {
                     title: page.title,
-                    exists: false,
-                    message: "Page does not exist"
+                    revisionId: revision.revid,
+                    templates
                   },
                   null,
                   2
@@ -802,47 +6107,114 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const revisions = page.revisions.map((rev: any) => ({
-          id: rev.revid,
-          timestamp: rev.timestamp,
-          user: rev.user,
-          comment: rev.comment
-        }));
+        case "set_template_param": {
+          const {
+            title,
+            template,
+            param,
+            value,
+            occurrence = 1,
+            summary
+          } = request.params.arguments as {
+            title: string;
+            template: string;
+            param: string;
+            value: string;
+            occurrence?: number;
+            summary?: string;
+          };
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
+          const current = await wikiClient.getCurrentRevision(title);
+          if (!current) {
+            throw new Error(`Page "${title}" does not exist`);
+          }
+
+          const change = setTemplateParam(
+            current.content,
+            template,
+            param,
+            value,
+            occurrence
+          );
+
+          if (!change.changed) {
+            return {
+              content: [
                 {
-                  title: page.title,
-                  revisions
-                },
-                null,
-                2
-              )
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      title,
+                      result: "nochange",
+                      success: true,
+                      message: `${param} already has this value`
+                    },
+                    null,
+                    2
+                  )
+                }
+              ]
+            };
+          }
+
+          // Base the edit on the revision we modified so a concurrent edit
+          // comes back as a conflict instead of being overwritten
+          let result;
+          try {
+            result = await wikiClient.updatePage(
+              title,
+              change.text,
+              summary ??
+                `Set ${param} in {{${normalizeTemplateName(template)}}} via MCP`,
+              { baseRevId: current.revId }
+            );
+          } catch (error) {
+            if (error instanceof EditConflictError) {
+              return editConflictResponse(error, current.revId);
             }
-          ]
-        };
-      }
+            throw error;
+          }
 
-      case "get_categories": {
-        const { title } = request.params.arguments as { title: string };
-        const result = await wikiClient.getCategories(title);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    title,
+                    template: normalizeTemplateName(template),
+                    param,
+                    previousValue: change.previousValue ?? null,
+                    added: change.added,
+                    result: result.edit.result,
+                    newRevId: result.edit.newrevid,
+                    success: result.edit.result === "Success"
+                  },
+                  null,
+                  2
+                )
+              }
+            ]
+          };
+        }
 
-        const pages = result.query.pages;
-        const page = pages[0];
+        case "get_cache_stats": {
+          const { clear = false } = request.params.arguments as {
+            clear?: boolean;
+          };
+          const stats = wikiClient.getCacheStats();
+          if (clear) {
+            wikiClient.clearCache();
+          }
 
-        if (page.missing) {
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    title: page.title,
-                    exists: false,
-                    message: "Page does not exist"
+                    ...stats,
+                    cleared: clear
                   },
                   null,
                   2
@@ -852,84 +6224,572 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const categories = page.categories
-          ? page.categories.map((cat: any) => cat.title)
-          : [];
+        default:
+          throw new Error(`Unknown tool: ${request.params.name}`);
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          }
+        ],
+        isError: true
+      };
+    }
+  });
+
+  // Wiki pages as resources, paged through list=allpages
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const result = await defaultWiki.client.listAllPages(
+      100,
+      request.params?.cursor
+    );
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  title: page.title,
-                  categories
-                },
-                null,
-                2
-              )
-            }
-          ]
-        };
+    return {
+      resources: result.items.map((page: any) => ({
+        uri: pageUri(page.title),
+        name: page.title,
+        mimeType: "text/x-wiki"
+      })),
+      nextCursor: result.cursor
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: `${PAGE_URI_PREFIX}{title}`,
+        name: "Wiki page",
+        description: "Current wikitext of a wiki page (title is URI-encoded)",
+        mimeType: "text/x-wiki"
+      },
+      {
+        uriTemplate: `${PAGE_URI_PREFIX}{title}@{revid}`,
+        name: "Wiki page revision",
+        description: "Wikitext of a wiki page at a specific revision ID",
+        mimeType: "text/x-wiki"
       }
+    ]
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const parsed = parsePageUri(uri);
+    if (!parsed) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid resource URI: ${uri}`
+      );
+    }
+
+    const result = await defaultWiki.client.getPage(parsed.title, {
+      revId: parsed.revId
+    });
+    const page = result.query.pages?.[0];
 
-      default:
-        throw new Error(`Unknown tool: ${request.params.name}`);
+    if (!page || page.missing || !page.revisions) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Page not found: ${parsed.title}${
+          parsed.revId === undefined ? "" : ` (revision ${parsed.revId})`
+        }`
+      );
     }
-  } catch (error) {
+    if (
+      parsed.revId !== undefined &&
+      normalizeTitle(page.title) !== normalizeTitle(parsed.title)
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Revision ${parsed.revId} belongs to "${page.title}", not "${parsed.title}"`
+      );
+    }
+
+    const slot = page.revisions[0].slots.main;
+
     return {
-      content: [
+      contents: [
         {
-          type: "text",
-          text: `Error: ${
-            error instanceof Error ? error.message : String(error)
-          }`
+          uri,
+          mimeType: slot.contentformat ?? "text/x-wiki",
+          text: slot.content
         }
-      ],
-      isError: true
+      ]
     };
-  }
-});
+  });
+}
+
+// Resource subscriptions for one server (session). Subscribed pages are
+// watched through the shared RecentChangesWatcher until the client
+// unsubscribes or disconnects.
+function registerSubscriptionHandlers(server: Server): void {
+  const subscriptions = new Map<
+    string,
+    { title: string; listener: PageChangeListener }
+  >();
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const parsed = parsePageUri(uri);
+    if (!parsed) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid resource URI: ${uri}`
+      );
+    }
+
+    // A pinned revision never changes, so there is nothing to watch
+    if (parsed.revId === undefined && !subscriptions.has(uri)) {
+      const listener = () => {
+        server.sendResourceUpdated({ uri }).catch((error) => {
+          console.error(`Failed to notify subscriber of ${uri}:`, error);
+        });
+      };
+      defaultWiki.watcher.subscribe(parsed.title, listener);
+      subscriptions.set(uri, { title: parsed.title, listener });
+    }
+
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const subscription = subscriptions.get(request.params.uri);
+    if (subscription) {
+      defaultWiki.watcher.unsubscribe(
+        subscription.title,
+        subscription.listener
+      );
+      subscriptions.delete(request.params.uri);
+    }
+
+    return {};
+  });
+
+  server.onclose = () => {
+    for (const { title, listener } of subscriptions.values()) {
+      defaultWiki.watcher.unsubscribe(title, listener);
+    }
+    subscriptions.clear();
+  };
+}
 
 // Start the server
 async function runStdioServer() {
+  const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("MediaWiki MCP Server running on stdio");
-  console.error(`Connected to MediaWiki API at: ${API_URL}`);
-  console.error(
-    `Mode: ${
-      USERNAME && PASSWORD
-        ? "Authenticated (read/write)"
-        : "Anonymous (read-only)"
-    }`
-  );
+  logWikis();
+}
+
+// Parse ALLOWED_ORIGINS ("*" or a comma-separated list of origins)
+const allowedOriginList = config.allowedOrigins
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+const allowAnyOrigin = allowedOriginList.includes("*");
+
+// Active HTTP sessions, keyed by MCP session ID
+const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+const sseTransports = new Map<string, SSEServerTransport>();
+// The API key each session was opened with
+const sessionKeys = new Map<string, ApiKey>();
+
+// API keys HTTP clients must present as bearer tokens. Without a key file
+// only clients on this machine may connect (see keylessAccess).
+const apiKeys =
+  SERVER_MODE === "http" && API_KEYS_FILE
+    ? loadApiKeys(API_KEYS_FILE)
+    : undefined;
+
+const isLoopback = (host?: string): boolean =>
+  host !== undefined &&
+  (host === "localhost" || host === "::1" || host.startsWith("127."));
+
+// Without keys, only clients on this machine may connect unless the operator
+// explicitly accepts an open server
+if (SERVER_MODE === "http" && !apiKeys && argv.auth) {
+  if (!isLoopback(config.host)) {
+    throw new Error(
+      "HTTP mode needs API keys when listening beyond localhost: set API_KEYS_FILE, set HOST=127.0.0.1, or pass --no-auth to let anyone who can reach the port use the wiki account"
+    );
+  }
+  // Any web page the operator visits could otherwise drive the server
+  if (allowAnyOrigin) {
+    throw new Error(
+      "ALLOWED_ORIGINS=* needs API keys: list the browser origins that may use the server instead"
+    );
+  }
 }
 
-// Try to log in only if credentials are provided
-if (USERNAME && PASSWORD) {
-  wikiClient
-    .login()
-    .then(() => {
-      console.error("Login successful - write operations enabled");
-    })
-    .catch((error) => {
-      console.error(`Login failed: ${error.message}`);
-      console.error("Running in read-only mode");
-    })
-    .finally(() => {
-      if (SERVER_MODE === "stdio") {
-        runStdioServer().catch((error) => {
-          console.error("Fatal error running server:", error);
-          process.exit(1);
+// Clients on this machine without keys may edit, but deleting and protecting
+// pages needs a key or --no-auth
+const keylessAccess: ApiKey = argv.auth
+  ? { name: "local", scope: "write" }
+  : LOCAL_ACCESS;
+
+// Browsers always send Origin on cross-origin requests; other clients send
+// none and are not affected
+const isAllowedOrigin = (origin: string | undefined): boolean =>
+  origin === undefined || allowAnyOrigin || allowedOriginList.includes(origin);
+
+// Send a JSON-RPC error response for requests that never reach a transport
+const sendJsonRpcError = (
+  res: Response,
+  status: number,
+  code: number,
+  message: string
+): void => {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null
+  });
+};
+
+async function runHttpServer() {
+  // Create Express app
+  const app = express();
+
+  // Basic middleware
+  app.use(express.json({ limit: "4mb" }));
+  app.use(express.urlencoded({ extended: true }));
+
+  // CORS middleware
+  const corsMiddleware = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void => {
+    // Only allowed origins get CORS headers, naming that origin; browsers
+    // keep the reply from any other page
+    const origin = req.headers.origin;
+    res.header("Vary", "Origin");
+    if (origin && isAllowedOrigin(origin)) {
+      res.header("Access-Control-Allow-Origin", origin);
+      res.header(
+        "Access-Control-Allow-Methods",
+        "GET, POST, PUT, DELETE, OPTIONS"
+      );
+      res.header(
+        "Access-Control-Allow-Headers",
+        "Origin, X-Requested-With, Content-Type, Accept, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID"
+      );
+      res.header("Access-Control-Expose-Headers", "Mcp-Session-Id");
+    }
+    if (req.method === "OPTIONS") {
+      res.sendStatus(200);
+      return;
+    }
+    next();
+  };
+
+  app.use(corsMiddleware);
+
+  // Refuse requests from web pages on origins that were not allowed, before
+  // they reach a session
+  const originMiddleware = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void => {
+    if (!isAllowedOrigin(req.headers.origin)) {
+      sendJsonRpcError(
+        res,
+        403,
+        -32000,
+        `Forbidden: origin ${req.headers.origin} is not allowed`
+      );
+      return;
+    }
+    next();
+  };
+
+  app.use(["/mcp", "/sse", "/messages"], originMiddleware);
+
+  // On a loopback address, a Host header naming another host means a web
+  // page reached the server through DNS rebinding
+  if (isLoopback(config.host)) {
+    app.use(
+      ["/mcp", "/sse", "/messages"],
+      hostHeaderValidation(["localhost", "127.0.0.1", "[::1]", config.host!])
+    );
+  }
+
+  // Bearer token authentication. Preflight requests were answered above, as
+  // browsers send them without credentials.
+  const authMiddleware = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void => {
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(
+      req.header("authorization") ?? ""
+    );
+    const apiKey = match ? apiKeys?.lookup(match[1]) : undefined;
+    if (!apiKey) {
+      res.header("WWW-Authenticate", 'Bearer realm="mcp"');
+      sendJsonRpcError(
+        res,
+        401,
+        -32001,
+        "Unauthorized: missing or invalid API key"
+      );
+      return;
+    }
+    res.locals.apiKey = apiKey;
+    next();
+  };
+
+  if (apiKeys) {
+    app.use(["/mcp", "/sse", "/messages"], authMiddleware);
+  }
+
+  // A session can only be used with the API key that opened it
+  const checkSessionKey = (res: Response, sessionId: string): boolean => {
+    if (apiKeys && sessionKeys.get(sessionId) !== res.locals.apiKey) {
+      sendJsonRpcError(
+        res,
+        403,
+        -32001,
+        "Forbidden: session belongs to another API key"
+      );
+      return false;
+    }
+    return true;
+  };
+
+  // Streamable HTTP transport (MCP 2025-03-26 and later)
+  app.post("/mcp", async (req: Request, res: Response) => {
+    const sessionId = req.header("mcp-session-id");
+
+    try {
+      let transport = sessionId
+        ? streamableTransports.get(sessionId)
+        : undefined;
+
+      if (!transport) {
+        if (sessionId) {
+          sendJsonRpcError(res, 404, -32001, "Session not found");
+          return;
+        }
+        if (!isInitializeRequest(req.body)) {
+          sendJsonRpcError(
+            res,
+            400,
+            -32000,
+            "Bad Request: No valid session ID provided"
+          );
+          return;
+        }
+
+        // New session: give it its own server instance
+        const access: ApiKey = res.locals.apiKey ?? keylessAccess;
+        const newTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            streamableTransports.set(id, newTransport);
+            sessionKeys.set(id, access);
+          }
         });
+        newTransport.onclose = () => {
+          if (newTransport.sessionId) {
+            streamableTransports.delete(newTransport.sessionId);
+            sessionKeys.delete(newTransport.sessionId);
+          }
+        };
+
+        await createServer(access).connect(newTransport);
+        transport = newTransport;
+      } else if (!checkSessionKey(res, sessionId!)) {
+        return;
       }
+
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error("Error handling MCP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
+
+  // Server-to-client notification stream (GET) and session termination (DELETE)
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const sessionId = req.header("mcp-session-id");
+    const transport = sessionId
+      ? streamableTransports.get(sessionId)
+      : undefined;
+
+    if (!transport) {
+      sendJsonRpcError(res, 400, -32000, "Invalid or missing session ID");
+      return;
+    }
+    if (!checkSessionKey(res, sessionId!)) {
+      return;
+    }
+
+    try {
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      console.error("Error handling MCP session request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  };
+
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+
+  // Legacy HTTP+SSE transport (MCP 2024-11-05) for older clients
+  app.get("/sse", async (req: Request, res: Response) => {
+    const transport = new SSEServerTransport("/messages", res);
+    const access: ApiKey = res.locals.apiKey ?? keylessAccess;
+    sseTransports.set(transport.sessionId, transport);
+    sessionKeys.set(transport.sessionId, access);
+    res.on("close", () => {
+      sseTransports.delete(transport.sessionId);
+      sessionKeys.delete(transport.sessionId);
     });
-} else {
-  if (SERVER_MODE === "stdio") {
-    runStdioServer().catch((error) => {
-      console.error("Fatal error running server:", error);
-      process.exit(1);
-    });
+
+    try {
+      await createServer(access).connect(transport);
+    } catch (error) {
+      console.error("Error establishing SSE stream:", error);
+      sseTransports.delete(transport.sessionId);
+      sessionKeys.delete(transport.sessionId);
+    }
+  });
+
+  app.post("/messages", async (req: Request, res: Response) => {
+    const sessionId = String(req.query.sessionId ?? "");
+    const transport = sseTransports.get(sessionId);
+
+    if (!transport) {
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return;
+    }
+    if (!checkSessionKey(res, sessionId)) {
+      return;
+    }
+
+    try {
+      await transport.handlePostMessage(req, res, req.body);
+    } catch (error) {
+      console.error("Error handling SSE message:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
+
+  // Create HTTP(S) server
+  const httpServer =
+    config.sslEnabled && config.sslKeyPath && config.sslCertPath
+      ? https.createServer(
+          {
+            key: fs.readFileSync(config.sslKeyPath),
+            cert: fs.readFileSync(config.sslCertPath)
+          },
+          app
+        )
+      : http.createServer(app);
+
+  // Close every open session before exiting
+  const shutdown = async () => {
+    const transports = [
+      ...streamableTransports.values(),
+      ...sseTransports.values()
+    ];
+    await Promise.allSettled(transports.map((transport) => transport.close()));
+    httpServer.close(() => process.exit(0));
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
+  // Start server
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(config.port, config.host, () => resolve());
+  });
+
+  const protocol = config.sslEnabled ? "https" : "http";
+  const host = config.host ?? "localhost";
+  console.error(
+    `MediaWiki MCP Server running on port ${config.port} (${
+      config.sslEnabled ? "HTTPS" : "HTTP"
+    })`
+  );
+  console.error(
+    `Streamable HTTP endpoint: ${protocol}://${host}:${config.port}/mcp`
+  );
+  console.error(
+    `Legacy SSE endpoint: ${protocol}://${host}:${config.port}/sse`
+  );
+  if (apiKeys) {
+    console.error(`API keys: ${apiKeys.size} loaded from ${API_KEYS_FILE}`);
+  } else if (argv.auth) {
+    console.error(
+      "No API keys: only clients on this machine can connect, with every tool except delete_page, undelete_page and protect_page"
+    );
+  } else {
+    console.error(
+      `Warning: running without API keys (--no-auth); ${
+        isLoopback(config.host)
+          ? "any program on this machine"
+          : "anyone who can reach this port"
+      } can use every tool with the wiki account's rights`
+    );
   }
+  logWikis();
 }
+
+function logWikis(): void {
+  for (const wiki of wikis.values()) {
+    const mode = wiki.readOnly
+      ? "Read-only (configured)"
+      : wiki.client.authMethod
+        ? `Authenticated via ${wiki.client.authMethod} (read/write)`
+        : "Anonymous (read-only)";
+    console.error(
+      `Wiki "${wiki.name}"${wiki === defaultWiki ? " (default)" : ""}: ${wiki.source} - ${mode}`
+    );
+  }
+}
+
+const runServer = SERVER_MODE === "http" ? runHttpServer : runStdioServer;
+
+// Try to log in only to wikis with credentials
+Promise.all(
+  [...wikis.values()]
+    .filter((wiki) => wiki.client.authMethod)
+    .map((wiki) =>
+      wiki.client
+        .login()
+        .then(async (success) => {
+          if (success) {
+            const userInfo = await wiki.client.getUserInfo();
+            console.error(
+              `Login to "${wiki.name}" successful via ${wiki.client.authMethod} as ${userInfo.name} - write operations enabled`
+            );
+            console.error(`Granted rights: ${userInfo.rights.join(", ")}`);
+          } else {
+            console.error(`Login to "${wiki.name}" failed`);
+          }
+        })
+        .catch((error) => {
+          console.error(`Login to "${wiki.name}" failed: ${error.message}`);
+          console.error("Running in read-only mode");
+        })
+    )
+).finally(() => {
+  runServer().catch((error) => {
+    console.error("Fatal error running server:", error);
+    process.exit(1);
+  });
+});
@@ -0,0 +1,144 @@
+// Page change notifications for resource subscriptions, found by polling the
+// wiki's recent changes
+
+import { normalizeTitle } from "./response-cache.js";
+
+// The part of MediaWikiClient the watcher uses
+export interface RecentChangesSource {
+  getServerTime(): Promise<string>;
+  getRecentChanges(options: {
+    start: string;
+    dir: "newer";
+    limit: number;
+  }): Promise<{ items: { rcid: number; title: string; timestamp: string }[] }>;
+  invalidateCache(title: string): void;
+}
+
+export type PageChangeListener = (title: string) => void;
+
+const RC_POLL_MAX_CHANGES = 5000;
+
+// Polls list=recentchanges while any page subscriptions exist and notifies the
+// listeners registered for each changed title. The rcstart position (and the
+// rcids already seen at that exact timestamp, since rcstart is inclusive) is
+// kept between polls so no change is missed or reported twice.
+export class RecentChangesWatcher {
+  private listeners = new Map<string, Set<PageChangeListener>>();
+  private rcStart?: string;
+  private seenAtStart = new Set<number>();
+  private timer?: NodeJS.Timeout;
+  // Bumped when polling stops, so a poll still in flight can tell that its
+  // results are stale and must not be stored or followed by another poll
+  private generation = 0;
+
+  constructor(
+    private client: RecentChangesSource,
+    private intervalMs: number
+  ) {}
+
+  subscribe(title: string, listener: PageChangeListener): void {
+    const key = normalizeTitle(title);
+    let listeners = this.listeners.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(key, listeners);
+    }
+    listeners.add(listener);
+    this.schedule();
+  }
+
+  unsubscribe(title: string, listener: PageChangeListener): void {
+    const key = normalizeTitle(title);
+    const listeners = this.listeners.get(key);
+    listeners?.delete(listener);
+    if (listeners?.size === 0) {
+      this.listeners.delete(key);
+    }
+
+    if (this.listeners.size === 0) {
+      // Nothing to watch: stop polling and start fresh on the next subscribe
+      clearTimeout(this.timer);
+      this.timer = undefined;
+      this.rcStart = undefined;
+      this.seenAtStart.clear();
+      this.generation++;
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer || this.listeners.size === 0) {
+      return;
+    }
+    // The first poll only records the starting position
+    this.timer = setTimeout(
+      () => void this.poll(),
+      this.rcStart ? this.intervalMs : 0
+    );
+    this.timer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    const generation = this.generation;
+    try {
+      if (!this.rcStart) {
+        const serverTime = await this.client.getServerTime();
+        if (generation === this.generation) {
+          this.rcStart = serverTime;
+        }
+      } else {
+        await this.fetchChanges(generation);
+      }
+    } catch (error) {
+      console.error("Recent changes poll failed:", error);
+    } finally {
+      if (generation === this.generation) {
+        this.timer = undefined;
+        this.schedule();
+      }
+    }
+  }
+
+  private async fetchChanges(generation: number): Promise<void> {
+    const start = this.rcStart!;
+    let latest = start;
+    let seenAtLatest = new Set(this.seenAtStart);
+    const changedTitles = new Set<string>();
+
+    // Anything past the cap is picked up by the next poll, which starts from
+    // the latest timestamp seen here
+    const { items } = await this.client.getRecentChanges({
+      start,
+      dir: "newer",
+      limit: RC_POLL_MAX_CHANGES
+    });
+    if (generation !== this.generation) {
+      return;
+    }
+
+    for (const change of items) {
+      if (change.timestamp === start && this.seenAtStart.has(change.rcid)) {
+        continue;
+      }
+      changedTitles.add(change.title);
+
+      // ISO 8601 timestamps compare correctly as strings
+      if (change.timestamp > latest) {
+        latest = change.timestamp;
+        seenAtLatest = new Set();
+      }
+      if (change.timestamp === latest) {
+        seenAtLatest.add(change.rcid);
+      }
+    }
+
+    this.rcStart = latest;
+    this.seenAtStart = seenAtLatest;
+
+    for (const title of changedTitles) {
+      this.client.invalidateCache(title);
+      this.listeners
+        .get(normalizeTitle(title))
+        ?.forEach((listener) => listener(title));
+    }
+  }
+}
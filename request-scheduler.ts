@@ -0,0 +1,57 @@
+// Client-side rate limiting for MediaWiki requests
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// Sliding-window rate limiter shared by every request a client makes. Requests
+// acquire slots one at a time, and the whole client can be paused when the
+// wiki asks us to back off.
+export class RequestScheduler {
+  private timestamps: number[] = [];
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private maxRequests: number,
+    private windowMs: number
+  ) {}
+
+  acquire(): Promise<void> {
+    const slot = this.queue.then(() => this.waitForSlot());
+    this.queue = slot.catch(() => undefined);
+    return slot;
+  }
+
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async waitForSlot(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.timestamps = this.timestamps.filter(
+        (timestamp) => timestamp > now - this.windowMs
+      );
+
+      const windowWaitMs =
+        this.maxRequests > 0 && this.timestamps.length >= this.maxRequests
+          ? this.timestamps[0] + this.windowMs - now
+          : 0;
+      const waitMs = Math.max(this.pausedUntil - now, windowWaitMs);
+
+      if (waitMs <= 0) {
+        break;
+      }
+      if (windowWaitMs > 1000) {
+        console.error(
+          `Rate limit reached, waiting ${Math.ceil(
+            waitMs / 1000
+          )}s before the next MediaWiki request`
+        );
+      }
+      await sleep(waitMs);
+    }
+
+    this.timestamps.push(Date.now());
+  }
+}
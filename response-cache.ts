@@ -0,0 +1,162 @@
+// In-memory TTL + LRU cache for read-only API responses, indexed by the page
+// titles each response covers so edits can drop what they made stale
+
+export interface CacheStats {
+  enabled: boolean;
+  size: number;
+  maxEntries: number;
+  ttlSeconds: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  invalidations: number;
+  hitRate: number;
+}
+
+interface CacheEntry {
+  value: any;
+  expiresAt: number;
+  titles: Set<string>;
+}
+
+// Normalize a page title the way MediaWiki does for the common cases
+// (underscores become spaces, first letter is uppercased)
+export const normalizeTitle = (title: string): string => {
+  const trimmed = title.replace(/_/g, " ").replace(/\s+/g, " ").trim();
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+};
+
+// TTL + LRU cache for read-only API responses. Entries remember which page
+// titles they were requested for so writes can invalidate them.
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private invalidations = 0;
+
+  constructor(
+    private enabled: boolean,
+    private ttlSeconds: number,
+    private maxEntries: number
+  ) {}
+
+  // Build a stable cache key from request params, ignoring key order
+  static keyFor(params: Record<string, any>): string {
+    return Object.keys(params)
+      .filter((key) => params[key] !== undefined)
+      .sort()
+      .map((key) => `${key}=${String(params[key])}`)
+      .join("&");
+  }
+
+  // Collect the page titles a request refers to
+  static titlesFor(params: Record<string, any>): Set<string> {
+    const titles = new Set<string>();
+    for (const key of ["titles", "title", "page"]) {
+      if (typeof params[key] === "string") {
+        params[key]
+          .split("|")
+          .forEach((title: string) => titles.add(normalizeTitle(title)));
+      }
+    }
+    return titles;
+  }
+
+  // Collect the titles a response resolved the request to, so that editing a
+  // redirect target or a differently written title also drops the entry
+  static titlesIn(response: any): Set<string> {
+    const titles = new Set<string>();
+    for (const entry of [
+      ...(response?.query?.normalized ?? []),
+      ...(response?.query?.redirects ?? []),
+      ...(response?.parse?.redirects ?? [])
+    ]) {
+      titles.add(normalizeTitle(entry.to));
+    }
+    for (const page of response?.query?.pages ?? []) {
+      if (typeof page.title === "string") {
+        titles.add(normalizeTitle(page.title));
+      }
+    }
+    if (typeof response?.parse?.title === "string") {
+      titles.add(normalizeTitle(response.parse.title));
+    }
+    return titles;
+  }
+
+  get(key: string): any | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: any, titles: Set<string>): void {
+    if (!this.enabled || this.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: Date.now() + this.ttlSeconds * 1000,
+      titles
+    });
+
+    // Evict least recently used entries (Map keeps insertion order)
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+      this.evictions++;
+    }
+  }
+
+  // Drop every cached response that refers to the given title
+  invalidateTitle(title: string): number {
+    const normalized = normalizeTitle(title);
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.titles.has(normalized)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    this.invalidations += removed;
+    return removed;
+  }
+
+  clear(): void {
+    this.invalidations += this.entries.size;
+    this.entries.clear();
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      enabled: this.enabled,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      ttlSeconds: this.ttlSeconds,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      invalidations: this.invalidations,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    };
+  }
+}
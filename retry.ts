@@ -0,0 +1,107 @@
+// When a failed MediaWiki request is worth repeating, and after how long
+
+import { FetchError } from "node-fetch";
+
+// Error returned by the API in the response body ({ error: { code, info } })
+export class MediaWikiApiError extends Error {
+  constructor(
+    public code: string,
+    public info: string,
+    public retryAfterMs?: number
+  ) {
+    super(`MediaWiki API error: ${code} - ${info}`);
+    this.name = "MediaWikiApiError";
+  }
+}
+
+// Error for responses that never made it to the API (5xx, HTML error pages)
+export class MediaWikiHttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public retryAfterMs?: number
+  ) {
+    super(`MediaWiki HTTP error: ${status} - ${message}`);
+    this.name = "MediaWikiHttpError";
+  }
+}
+
+// API error codes that mean "try again later" rather than "this won't work".
+// The wiki rejects these requests before doing any work, so even writes are
+// safe to repeat.
+const TRANSIENT_API_ERRORS = new Set(["maxlag", "ratelimited", "readonly"]);
+// Transient too, but a write may have been committed before the error (e.g. a
+// gateway timing out on a slow edit), so only reads are repeated
+const TRANSIENT_READ_API_ERRORS = new Set([
+  "internal_api_error_DBQueryTimeoutError"
+]);
+const TRANSIENT_HTTP_STATUSES = new Set([429, 503]);
+const TRANSIENT_READ_HTTP_STATUSES = new Set([408, 500, 502, 504]);
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+// Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Returns how long to wait before retrying a failed request, or undefined
+// if it should not be retried
+export function retryDelay(
+  error: unknown,
+  method: "GET" | "POST",
+  attempt: number,
+  retryAttempts: number
+): number | undefined {
+  if (attempt >= retryAttempts) {
+    return undefined;
+  }
+
+  const isRead = method === "GET";
+  let retryAfterMs: number | undefined;
+  if (error instanceof MediaWikiApiError) {
+    if (
+      !TRANSIENT_API_ERRORS.has(error.code) &&
+      !(isRead && TRANSIENT_READ_API_ERRORS.has(error.code))
+    ) {
+      return undefined;
+    }
+    retryAfterMs = error.retryAfterMs;
+  } else if (error instanceof MediaWikiHttpError) {
+    if (
+      !TRANSIENT_HTTP_STATUSES.has(error.status) &&
+      !(isRead && TRANSIENT_READ_HTTP_STATUSES.has(error.status))
+    ) {
+      return undefined;
+    }
+    retryAfterMs = error.retryAfterMs;
+  } else if (!(error instanceof FetchError) || !isRead) {
+    // A network failure during a POST may still have reached the wiki,
+    // so only repeat reads
+    return undefined;
+  }
+
+  // A wiki that wants a longer pause than we would ever back off will not
+  // recover within this call; waiting would also hold up every other request
+  if (retryAfterMs !== undefined && retryAfterMs > RETRY_MAX_DELAY_MS) {
+    error.message += ` (the wiki asked to retry after ${Math.ceil(
+      retryAfterMs / 1000
+    )}s, longer than the ${RETRY_MAX_DELAY_MS / 1000}s limit)`;
+    return undefined;
+  }
+
+  const backoff = Math.min(
+    RETRY_MAX_DELAY_MS,
+    RETRY_BASE_DELAY_MS * 2 ** attempt
+  );
+  const jitter = Math.random() * backoff * 0.25;
+  return Math.max(retryAfterMs ?? 0, backoff + jitter);
+}
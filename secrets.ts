@@ -0,0 +1,41 @@
+// Secrets (passwords, OAuth tokens) are only read from environment variables
+// or files, never from command line arguments, which other users on the
+// machine can see in the process list.
+
+import fs from "fs";
+
+export function readSecretFile(filePath: string): string {
+  let stat: fs.Stats;
+  let value: string;
+  try {
+    stat = fs.statSync(filePath);
+    value = fs.readFileSync(filePath, "utf8").trim();
+  } catch (error) {
+    throw new Error(
+      `Cannot read secret from ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  if (process.platform !== "win32" && (stat.mode & 0o077) !== 0) {
+    console.error(
+      `Warning: ${filePath} is readable by other users; consider chmod 600`
+    );
+  }
+  if (!value) {
+    throw new Error(`Secret file ${filePath} is empty`);
+  }
+  return value;
+}
+
+// The value of an environment variable, or of the file named by the same
+// variable with a _FILE suffix (MEDIAWIKI_PASSWORD / MEDIAWIKI_PASSWORD_FILE)
+export function readSecretFromEnv(name: string): string | undefined {
+  const value = process.env[name];
+  if (value) {
+    return value;
+  }
+  const file = process.env[`${name}_FILE`];
+  return file ? readSecretFile(file) : undefined;
+}
@@ -0,0 +1,238 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  FakeHttpServer,
+  callTool,
+  startFakeHttpServer
+} from "./fake-server.js";
+
+const READ_KEY = "read-key-0123456789abcdef";
+const WRITE_KEY = "write-key-0123456789abcdef";
+const ADMIN_KEY = "admin-key-0123456789abcdef";
+// A write key limited to the main and User namespaces
+const LIMITED_KEY = "limited-key-0123456789abcdef";
+
+describe("API keys in HTTP mode", () => {
+  let server: FakeHttpServer;
+  const clients: Client[] = [];
+  const connect = async (key: string): Promise<Client> => {
+    const client = await server.connect(key);
+    clients.push(client);
+    return client;
+  };
+
+  before(async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-keys-"));
+    const keyFile = path.join(dir, "keys.json");
+    fs.writeFileSync(
+      keyFile,
+      JSON.stringify({
+        keys: [
+          { name: "reader", key: READ_KEY, scope: "read" },
+          { name: "writer", key: WRITE_KEY, scope: "write" },
+          { name: "admin", key: ADMIN_KEY, scope: "admin" },
+          {
+            name: "limited",
+            key: LIMITED_KEY,
+            scope: "write",
+            namespaces: [0, 2]
+          }
+        ]
+      }),
+      { mode: 0o600 }
+    );
+    server = await startFakeHttpServer({
+      API_KEYS_FILE: keyFile,
+      ALLOWED_ORIGINS: "*"
+    });
+  });
+
+  after(async () => {
+    await Promise.all(clients.map((client) => client.close()));
+    await server.stop();
+  });
+
+  test("requests without a valid key are rejected", async () => {
+    const attempts: Record<string, string>[] = [
+      {},
+      { Authorization: "Bearer wrong" }
+    ];
+    for (const headers of attempts) {
+      const response = await fetch(server.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: "{}"
+      });
+      assert.equal(response.status, 401);
+    }
+  });
+
+  test("CORS names the requesting origin rather than *", async () => {
+    const preflight = await fetch(server.url, {
+      method: "OPTIONS",
+      headers: { Origin: "http://app.example" }
+    });
+    assert.equal(
+      preflight.headers.get("access-control-allow-origin"),
+      "http://app.example"
+    );
+  });
+
+  test("tools are listed and allowed by scope", async () => {
+    const names = async (key: string) =>
+      (await (await connect(key)).listTools()).tools.map((tool) => tool.name);
+
+    const read = await names(READ_KEY);
+    assert.ok(read.includes("read_page"));
+    assert.ok(read.includes("watchlist"));
+    assert.ok(!read.includes("update_page"));
+
+    const write = await names(WRITE_KEY);
+    assert.ok(write.includes("update_page"));
+    assert.ok(!write.includes("delete_page"));
+
+    assert.ok((await names(ADMIN_KEY)).includes("delete_page"));
+
+    const reader = await connect(READ_KEY);
+    const denied = await callTool(reader, "create_page", {
+      title: "Sandbox",
+      content: "x"
+    });
+    assert.equal(denied.isError, true);
+    assert.match(denied.text, /needs write/);
+  });
+
+  test("namespace limits use the wiki's reading of the title", async () => {
+    const limited = await connect(LIMITED_KEY);
+
+    const allowed = await callTool(limited, "create_page", {
+      title: "user:Tester/Notes",
+      content: "x"
+    });
+    assert.equal(allowed.isError, false, allowed.text);
+
+    // MediaWiki drops the leading colon, so this is Template:Foo
+    const colon = await callTool(limited, "create_page", {
+      title: ":Template:Foo",
+      content: "x"
+    });
+    assert.equal(colon.isError, true);
+    assert.match(colon.text, /namespace 10/);
+  });
+
+  test("moving a page also checks its talk page", async () => {
+    const limited = await connect(LIMITED_KEY);
+    await callTool(limited, "create_page", { title: "Movable", content: "x" });
+
+    const withTalk = await callTool(limited, "move_page", {
+      from: "Movable",
+      to: "Moved"
+    });
+    assert.equal(withTalk.isError, true);
+    assert.match(withTalk.text, /namespace 1 /);
+
+    const withoutTalk = await callTool(limited, "move_page", {
+      from: "Movable",
+      to: "Moved",
+      moveTalk: false
+    });
+    assert.equal(withoutTalk.isError, false, withoutTalk.text);
+  });
+});
+
+describe("HTTP mode without API keys", () => {
+  let server: FakeHttpServer;
+  let client: Client | undefined;
+
+  before(async () => {
+    server = await startFakeHttpServer({
+      HOST: "127.0.0.1",
+      ALLOWED_ORIGINS: "http://trusted.example"
+    });
+  });
+
+  after(async () => {
+    await client?.close();
+    await server.stop();
+  });
+
+  const initialize = (headers: Record<string, string>) =>
+    fetch(server.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...headers
+      },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-03-26",
+          capabilities: {},
+          clientInfo: { name: "test", version: "1.0.0" }
+        }
+      })
+    });
+
+  test("web pages on other origins are refused", async () => {
+    const response = await initialize({ Origin: "http://evil.example" });
+    assert.equal(response.status, 403);
+    assert.equal(response.headers.get("access-control-allow-origin"), null);
+
+    const preflight = await fetch(server.url, {
+      method: "OPTIONS",
+      headers: { Origin: "http://evil.example" }
+    });
+    assert.equal(preflight.headers.get("access-control-allow-origin"), null);
+  });
+
+  test("listed origins get CORS headers for that origin", async () => {
+    const response = await initialize({ Origin: "http://trusted.example" });
+    assert.equal(response.status, 200);
+    assert.equal(
+      response.headers.get("access-control-allow-origin"),
+      "http://trusted.example"
+    );
+  });
+
+  test("requests for another host name are refused", async () => {
+    // fetch does not let the Host header be changed
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const request = http.request(
+        server.url,
+        {
+          method: "POST",
+          headers: {
+            Host: `rebound.example:${server.url.port}`,
+            "Content-Type": "application/json"
+          }
+        },
+        (response) => {
+          response.resume();
+          resolve(response.statusCode);
+        }
+      );
+      request.once("error", reject);
+      request.end("{}");
+    });
+    assert.equal(status, 403);
+  });
+
+  test("clients get every tool but the admin ones", async () => {
+    client = await server.connect();
+    const names = (await client.listTools()).tools.map((tool) => tool.name);
+    assert.ok(names.includes("update_page"));
+    assert.ok(!names.includes("delete_page"));
+
+    const denied = await callTool(client, "delete_page", { title: "Wizard" });
+    assert.equal(denied.isError, true);
+    assert.match(denied.text, /needs admin/);
+  });
+});
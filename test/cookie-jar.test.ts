@@ -0,0 +1,86 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CookieJar } from "../cookie-jar.js";
+
+const API = "https://wiki.example.org/w/api.php";
+
+describe("CookieJar", () => {
+  test("sends cookies back to the host that set them", () => {
+    const jar = new CookieJar();
+    jar.setCookies(["session=abc; Path=/; HttpOnly"], API);
+
+    assert.equal(jar.getCookieHeader(API), "session=abc");
+    assert.equal(jar.getCookieHeader("https://other.example.org/"), undefined);
+    // Without a Domain attribute, subdomains don't get the cookie either
+    assert.equal(
+      jar.getCookieHeader("https://upload.wiki.example.org/"),
+      undefined
+    );
+  });
+
+  test("shares Domain cookies with subdomains", () => {
+    const jar = new CookieJar();
+    jar.setCookies(["centralauth=x; Domain=.example.org; Path=/"], API);
+    assert.equal(
+      jar.getCookieHeader("https://upload.example.org/file.png"),
+      "centralauth=x"
+    );
+  });
+
+  test("rejects cookies for a domain the response didn't come from", () => {
+    const jar = new CookieJar();
+    jar.setCookies(["stolen=1; Domain=evil.example"], API);
+    assert.equal(jar.size, 0);
+  });
+
+  test("matches paths on segment boundaries, longest first", () => {
+    const jar = new CookieJar();
+    jar.setCookies(["a=root; Path=/", "b=wiki; Path=/w"], API);
+
+    assert.equal(jar.getCookieHeader(API), "b=wiki; a=root");
+    assert.equal(
+      jar.getCookieHeader("https://wiki.example.org/wx/api.php"),
+      "a=root"
+    );
+  });
+
+  test("keeps Secure cookies off plain HTTP", () => {
+    const jar = new CookieJar();
+    jar.setCookies(["token=t; Path=/; Secure"], API);
+    assert.equal(
+      jar.getCookieHeader("http://wiki.example.org/w/api.php"),
+      undefined
+    );
+  });
+
+  test("deletes cookies that arrive already expired", () => {
+    const jar = new CookieJar();
+    jar.setCookies(["session=abc; Path=/"], API);
+    jar.setCookies(["session=; Path=/; Max-Age=0"], API);
+    assert.equal(jar.getCookieHeader(API), undefined);
+  });
+
+  test("Max-Age wins over Expires", () => {
+    const jar = new CookieJar();
+    jar.setCookies(
+      [
+        "session=abc; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Max-Age=60"
+      ],
+      API
+    );
+    assert.equal(jar.getCookieHeader(API), "session=abc");
+  });
+
+  test("persists cookies to a private file", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-cookies-"));
+    const file = path.join(dir, "cookies.json");
+    new CookieJar(file).setCookies(["session=abc; Path=/"], API);
+
+    assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+    assert.equal(new CookieJar(file).getCookieHeader(API), "session=abc");
+    fs.rmSync(dir, { recursive: true });
+  });
+});
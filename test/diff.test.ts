@@ -0,0 +1,32 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createUnifiedDiff, diffStats } from "../diff.js";
+
+describe("createUnifiedDiff", () => {
+  test("shows changed lines with context", () => {
+    assert.equal(
+      createUnifiedDiff("a\nb\nc\nd", "a\nB\nc\nd\ne", { context: 1 }),
+      "--- a\n+++ b\n@@ -1,4 +1,5 @@\n a\n-b\n+B\n c\n d\n+e"
+    );
+  });
+
+  test("returns an empty string for identical texts", () => {
+    assert.equal(createUnifiedDiff("same\ntext", "same\ntext"), "");
+  });
+
+  test("finds the shortest edit script", () => {
+    assert.deepEqual(diffStats("a\nb\nc\na\nb\nb\na", "c\nb\na\nb\na\nc"), {
+      added: 2,
+      removed: 3
+    });
+  });
+
+  test("shows a rewrite of a long page as replaced", () => {
+    const lines = (prefix: string) =>
+      Array.from({ length: 5000 }, (_, i) => `${prefix} ${i}`).join("\n");
+    assert.deepEqual(diffStats(lines("old"), lines("new")), {
+      added: 5000,
+      removed: 5000
+    });
+  });
+});
@@ -0,0 +1,129 @@
+// Runs the server over stdio against the in-process fake wiki, so tests go
+// through the real tool handlers and MediaWikiClient.
+
+import { spawn } from "child_process";
+import path from "path";
+import { fileURLToPath } from "url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+export const FAKE_USER = "Tester";
+
+// Only what the server needs, so settings from the developer's shell or .env
+// file don't leak into the tests
+const serverEnv = (env: Record<string, string>): Record<string, string> => ({
+  PATH: process.env.PATH ?? "",
+  MEDIAWIKI_USERNAME: FAKE_USER,
+  MEDIAWIKI_PASSWORD: "fake-password",
+  ...env
+});
+
+// serverArgs replace "--fake-wiki", e.g. to replay a fixture instead
+export async function startFakeServer(
+  env: Record<string, string> = {},
+  serverArgs: string[] = ["--fake-wiki"]
+): Promise<Client> {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ["--import", "tsx", "index.ts", ...serverArgs],
+    cwd: ROOT,
+    env: serverEnv(env),
+    stderr: "ignore"
+  });
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(transport);
+  return client;
+}
+
+export interface FakeHttpServer {
+  url: URL;
+  // An MCP client that sends the given API key as a bearer token
+  connect(apiKey?: string): Promise<Client>;
+  stop(): Promise<void>;
+}
+
+// Start the server in HTTP mode and wait until it listens
+export async function startFakeHttpServer(
+  env: Record<string, string> = {}
+): Promise<FakeHttpServer> {
+  const port = 20000 + Math.floor(Math.random() * 20000);
+  const child = spawn(
+    process.execPath,
+    ["--import", "tsx", "index.ts", "--fake-wiki", "--mode", "http"],
+    {
+      cwd: ROOT,
+      env: serverEnv({ PORT: String(port), ...env }),
+      stdio: ["ignore", "ignore", "pipe"]
+    }
+  );
+
+  await new Promise<void>((resolve, reject) => {
+    let output = "";
+    child.stderr!.on("data", (chunk) => {
+      output += chunk;
+      if (output.includes("running on port")) {
+        resolve();
+      }
+    });
+    child.once("exit", (code) =>
+      reject(new Error(`Server exited with code ${code}:\n${output}`))
+    );
+  });
+
+  const url = new URL(`http://${env.HOST ?? "localhost"}:${port}/mcp`);
+  return {
+    url,
+    async connect(apiKey?: string) {
+      const client = new Client({ name: "test", version: "1.0.0" });
+      await client.connect(
+        new StreamableHTTPClientTransport(url, {
+          requestInit: apiKey
+            ? { headers: { Authorization: `Bearer ${apiKey}` } }
+            : undefined
+        })
+      );
+      return client;
+    },
+    async stop() {
+      const exited = new Promise((resolve) => child.once("exit", resolve));
+      child.kill();
+      await exited;
+    }
+  };
+}
+
+export interface ToolResult {
+  isError: boolean;
+  text: string;
+  // The parsed JSON result, for tools that return one
+  json: any;
+}
+
+export async function callTool(
+  client: Client,
+  name: string,
+  args: Record<string, unknown> = {}
+): Promise<ToolResult> {
+  const result = await client.callTool({ name, arguments: args });
+  const content = result.content as { type: string; text: string }[];
+  const text = content.map((part) => part.text).join("\n");
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+  return { isError: result.isError === true, text, json };
+}
+
+// The current wikitext of a page
+export async function pageContent(
+  client: Client,
+  title: string
+): Promise<string> {
+  const { json, text } = await callTool(client, "read_page", { title });
+  return json?.content ?? text;
+}
@@ -0,0 +1,71 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { htmlToMarkdown, htmlToText } from "../html-to-markdown.js";
+
+const baseUrl = "https://wiki.example.org/w/api.php";
+
+const ARTICLE =
+  '<div class="mw-parser-output"><h2><span class="mw-headline" id="Lore">Lore</span><span class="mw-editsection">[edit]</span></h2>' +
+  '<p>The <b>wizard</b> casts <i>spells</i> &amp; reads <a href="/wiki/Spellbook" title="Spellbook">books</a>.</p></div>';
+
+describe("htmlToMarkdown", () => {
+  test("converts headings, inline formatting and links", () => {
+    assert.equal(
+      htmlToMarkdown(ARTICLE, { baseUrl }),
+      "## Lore\n\nThe **wizard** casts *spells* & reads [books](https://wiki.example.org/wiki/Spellbook)."
+    );
+  });
+
+  test("indents nested lists", () => {
+    assert.equal(
+      htmlToMarkdown(
+        "<ul><li>One<ul><li>Nested</li></ul></li><li>Two</li></ul><ol><li>First</li><li>Second</li></ol>"
+      ),
+      "- One\n  - Nested\n- Two\n\n1. First\n2. Second"
+    );
+  });
+
+  test("turns infoboxes into tables and escapes pipes", () => {
+    assert.equal(
+      htmlToMarkdown(
+        '<table class="infobox"><tr><th>Name</th><td>Zed</td></tr><tr><th>Affinity</th><td>Fire | Water</td></tr></table>'
+      ),
+      "| Name | Zed |\n| --- | --- |\n| Affinity | Fire \\| Water |"
+    );
+  });
+
+  test("keeps images and preformatted text, drops scripts", () => {
+    assert.equal(
+      htmlToMarkdown(
+        '<p><img src="/images/a.png" alt="A wizard"></p><pre>code\n  here</pre><script>alert(1)</script>',
+        { baseUrl }
+      ),
+      "![A wizard](https://wiki.example.org/images/a.png)\n\n```\ncode\n  here\n```"
+    );
+  });
+
+  test("renders definition lists and line breaks", () => {
+    assert.equal(
+      htmlToMarkdown("<dl><dt>Term</dt><dd>Definition</dd></dl><p>x<br>y</p>"),
+      "**Term**\n  Definition\n\nx\ny"
+    );
+  });
+});
+
+describe("htmlToText", () => {
+  test("keeps only the words", () => {
+    assert.equal(
+      htmlToText(ARTICLE),
+      "Lore\n\nThe wizard casts spells & reads books."
+    );
+  });
+
+  test("separates table cells with tabs", () => {
+    assert.equal(
+      htmlToText(
+        "<table><tr><th>Name</th><td>Zed</td></tr><tr><th>Affinity</th><td>Fire</td></tr></table>"
+      ),
+      "Name\tZed\nAffinity\tFire"
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { callTool, startFakeServer } from "./fake-server.js";
+
+describe("read tools", () => {
+  let client: Client;
+
+  before(async () => {
+    client = await startFakeServer();
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  test("read_page returns the wikitext", async () => {
+    const { json } = await callTool(client, "read_page", { title: "Wizard" });
+    assert.equal(json.title, "Wizard");
+    assert.match(json.content, /casts spells/);
+  });
+
+  test("read_page gives a fresh start timestamp for a cached page", async () => {
+    const first = await callTool(client, "read_page", { title: "Spellbook" });
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    const second = await callTool(client, "read_page", { title: "Spellbook" });
+    assert.equal(second.json.revisionId, first.json.revisionId);
+    assert.ok(second.json.startTimestamp > first.json.startTimestamp);
+  });
+
+  test("list_sections and read_section both stay on a redirect", async () => {
+    const { json } = await callTool(client, "list_sections", {
+      title: "Wizards"
+    });
+    assert.equal(json.title, "Wizards");
+    assert.deepEqual(json.sections, []);
+
+    const lead = await callTool(client, "read_section", {
+      title: "Wizards",
+      section: 0
+    });
+    assert.equal(lead.json.content, "#REDIRECT [[Wizard]]");
+  });
+
+  test("find_red_links checks every page in a category", async () => {
+    const { json } = await callTool(client, "find_red_links", {
+      category: "Wizards"
+    });
+    assert.equal(json.pagesChecked, 2);
+    assert.deepEqual(json.redLinks, [
+      { title: "Forest", linkedFrom: ["Wizard"] }
+    ]);
+  });
+
+  test("tools without parameters can be called without arguments", async () => {
+    const result = await client.callTool({ name: "list_wikis" });
+    assert.equal(result.isError, undefined);
+  });
+
+  test("get_link_report lists orphaned pages", async () => {
+    const { json } = await callTool(client, "get_link_report", {
+      report: "orphans"
+    });
+    assert.ok(json.pages.some((page: any) => page.title === "Main Page"));
+  });
+});
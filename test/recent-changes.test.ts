@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  RecentChangesSource,
+  RecentChangesWatcher
+} from "../recent-changes.js";
+
+interface Change {
+  rcid: number;
+  title: string;
+  timestamp: string;
+}
+
+const START = "2026-01-01T00:00:00Z";
+const INTERVAL = 60000;
+
+// Answers each recent changes query with the next batch of changes
+class FakeSource implements RecentChangesSource {
+  batches: Change[][] = [];
+  starts: string[] = [];
+  invalidated: string[] = [];
+  // When set, queries wait for this promise before answering
+  gate?: Promise<void>;
+
+  async getServerTime(): Promise<string> {
+    return START;
+  }
+
+  async getRecentChanges(options: { start: string }) {
+    this.starts.push(options.start);
+    await this.gate;
+    return { items: this.batches.shift() ?? [] };
+  }
+
+  invalidateCache(title: string): void {
+    this.invalidated.push(title);
+  }
+}
+
+// Let pending promise callbacks run
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("RecentChangesWatcher", () => {
+  let source: FakeSource;
+  let watcher: RecentChangesWatcher;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["setTimeout"] });
+    source = new FakeSource();
+    watcher = new RecentChangesWatcher(source, INTERVAL);
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  // Run the poll that is due after ms
+  const poll = async (ms: number) => {
+    mock.timers.tick(ms);
+    await settle();
+  };
+
+  test("notifies subscribers of changes since the first poll", async () => {
+    const changed: string[] = [];
+    watcher.subscribe("Wizard", (title) => changed.push(title));
+    await poll(0);
+
+    source.batches.push([
+      { rcid: 1, title: "Wizard", timestamp: "2026-01-01T00:00:05Z" },
+      { rcid: 2, title: "Other", timestamp: "2026-01-01T00:00:06Z" }
+    ]);
+    await poll(INTERVAL);
+
+    assert.deepEqual(source.starts, [START]);
+    assert.deepEqual(changed, ["Wizard"]);
+    assert.deepEqual(source.invalidated, ["Wizard", "Other"]);
+  });
+
+  test("reports changes at the start timestamp only once", async () => {
+    const changed: string[] = [];
+    watcher.subscribe("Wizard", (title) => changed.push(title));
+    await poll(0);
+
+    const first = {
+      rcid: 1,
+      title: "Wizard",
+      timestamp: "2026-01-01T00:00:05Z"
+    };
+    source.batches.push([first]);
+    await poll(INTERVAL);
+    // rcstart is inclusive, so the next poll sees the same change again
+    source.batches.push([
+      first,
+      { rcid: 2, title: "Wizard", timestamp: "2026-01-01T00:00:05Z" }
+    ]);
+    await poll(INTERVAL);
+
+    assert.deepEqual(source.starts, [START, first.timestamp]);
+    assert.equal(changed.length, 2);
+  });
+
+  test("drops a poll that finishes after the last unsubscribe", async () => {
+    const changed: string[] = [];
+    const listener = (title: string) => changed.push(title);
+    watcher.subscribe("Wizard", listener);
+    await poll(0);
+
+    let open!: () => void;
+    source.gate = new Promise((resolve) => (open = resolve));
+    source.batches.push([
+      { rcid: 1, title: "Wizard", timestamp: "2026-01-01T00:00:05Z" }
+    ]);
+    await poll(INTERVAL);
+    watcher.unsubscribe("Wizard", listener);
+    // A new subscriber must not hear about changes from before it subscribed
+    watcher.subscribe("Wizard", listener);
+    open();
+    await settle();
+    assert.deepEqual(changed, []);
+
+    // Only the new subscription polls, starting from the current time
+    source.batches.push([]);
+    await poll(0);
+    await poll(INTERVAL);
+    assert.deepEqual(source.starts, [START, START]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { callTool, startFakeServer } from "./fake-server.js";
+
+// The same session, run against the fake wiki and then against the fixture
+const session = async (client: Client) => [
+  await callTool(client, "create_page", { title: "Recorded", content: "x" }),
+  await callTool(client, "read_page", { title: "Recorded" })
+];
+
+describe("record and replay", () => {
+  test("replays a recorded session without secrets in the fixture", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-fixture-"));
+    const fixture = path.join(dir, "session.json");
+
+    const recorder = await startFakeServer({}, [
+      "--fake-wiki",
+      "--record",
+      fixture
+    ]);
+    const recorded = await session(recorder);
+    await recorder.close();
+
+    const text = fs.readFileSync(fixture, "utf8");
+    assert.ok(!text.includes("fake-password"));
+    for (const { response } of JSON.parse(text).interactions) {
+      const tokens = JSON.parse(response.body).query?.tokens ?? {};
+      for (const token of Object.values(tokens)) {
+        assert.equal(token, "recorded-token+\\");
+      }
+    }
+
+    const replayer = await startFakeServer({}, ["--replay", fixture]);
+    const replayed = await session(replayer);
+    await replayer.close();
+
+    assert.deepEqual(
+      replayed.map(({ text }) => text),
+      recorded.map(({ text }) => text)
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { RequestScheduler } from "../request-scheduler.js";
+
+// Let pending promise callbacks run
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("RequestScheduler", () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["setTimeout", "Date"] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  // Start acquiring a slot and report whether it has been granted yet
+  const track = (scheduler: RequestScheduler) => {
+    const state = { granted: false };
+    const done = scheduler.acquire().then(() => {
+      state.granted = true;
+    });
+    return { state, done };
+  };
+
+  test("holds requests beyond the limit until the window moves on", async () => {
+    const scheduler = new RequestScheduler(2, 1000);
+    await scheduler.acquire();
+    await scheduler.acquire();
+
+    const third = track(scheduler);
+    await settle();
+    assert.equal(third.state.granted, false);
+
+    mock.timers.tick(999);
+    await settle();
+    assert.equal(third.state.granted, false);
+
+    mock.timers.tick(1);
+    await third.done;
+  });
+
+  test("grants slots in the order they were asked for", async () => {
+    const scheduler = new RequestScheduler(1, 1000);
+    const order: number[] = [];
+    const requests = [1, 2, 3].map((n) =>
+      scheduler.acquire().then(() => order.push(n))
+    );
+
+    for (let i = 0; i < 3; i++) {
+      await settle();
+      mock.timers.tick(1000);
+    }
+    await Promise.all(requests);
+    assert.deepEqual(order, [1, 2, 3]);
+  });
+
+  test("pauses every request while the wiki asks to back off", async () => {
+    const scheduler = new RequestScheduler(0, 1000);
+    scheduler.pauseFor(5000);
+
+    const next = track(scheduler);
+    mock.timers.tick(4999);
+    await settle();
+    assert.equal(next.state.granted, false);
+
+    mock.timers.tick(1);
+    await next.done;
+  });
+
+  test("does not limit requests when the limit is zero", async () => {
+    const scheduler = new RequestScheduler(0, 1000);
+    for (let i = 0; i < 100; i++) {
+      await scheduler.acquire();
+    }
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { ResponseCache } from "../response-cache.js";
+
+describe("ResponseCache", () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["Date"] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  const titles = (...names: string[]) => new Set(names);
+
+  test("builds the same key whatever the parameter order", () => {
+    assert.equal(
+      ResponseCache.keyFor({
+        titles: "A",
+        action: "query",
+        rvslots: undefined
+      }),
+      ResponseCache.keyFor({ action: "query", titles: "A" })
+    );
+  });
+
+  test("serves an entry until its TTL runs out", () => {
+    const cache = new ResponseCache(true, 10, 10);
+    cache.set("key", "value", titles());
+
+    mock.timers.tick(9999);
+    assert.equal(cache.get("key"), "value");
+    mock.timers.tick(1);
+    assert.equal(cache.get("key"), undefined);
+    assert.equal(cache.stats().size, 0);
+  });
+
+  test("evicts the least recently used entry", () => {
+    const cache = new ResponseCache(true, 60, 2);
+    cache.set("a", 1, titles());
+    cache.set("b", 2, titles());
+    cache.get("a");
+    cache.set("c", 3, titles());
+
+    assert.equal(cache.get("a"), 1);
+    assert.equal(cache.get("b"), undefined);
+    assert.equal(cache.get("c"), 3);
+    assert.equal(cache.stats().evictions, 1);
+  });
+
+  test("drops the entries for a title however it is written", () => {
+    const cache = new ResponseCache(true, 60, 10);
+    const params = { action: "query", titles: "spell_book|Other" };
+    cache.set("page", 1, ResponseCache.titlesFor(params));
+    cache.set("unrelated", 2, titles("Unrelated"));
+
+    assert.equal(cache.invalidateTitle("Spell book"), 1);
+    assert.equal(cache.get("page"), undefined);
+    assert.equal(cache.get("unrelated"), 2);
+  });
+
+  test("indexes the titles a response resolved the request to", () => {
+    const response = {
+      query: {
+        normalized: [{ from: "wizards", to: "Wizards" }],
+        redirects: [{ from: "Wizards", to: "Wizard" }],
+        pages: [{ title: "Wizard" }]
+      }
+    };
+    assert.deepEqual([...ResponseCache.titlesIn(response)].sort(), [
+      "Wizard",
+      "Wizards"
+    ]);
+    assert.deepEqual(
+      [...ResponseCache.titlesIn({ parse: { title: "Spellbook" } })],
+      ["Spellbook"]
+    );
+  });
+
+  test("counts hits and misses", () => {
+    const cache = new ResponseCache(true, 60, 10);
+    cache.get("key");
+    cache.set("key", "value", titles());
+    cache.get("key");
+
+    const stats = cache.stats();
+    assert.equal(stats.hits, 1);
+    assert.equal(stats.misses, 1);
+    assert.equal(stats.hitRate, 0.5);
+  });
+
+  test("stores nothing when disabled", () => {
+    const cache = new ResponseCache(false, 60, 10);
+    cache.set("key", "value", titles());
+    assert.equal(cache.get("key"), undefined);
+  });
+});
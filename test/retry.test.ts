@@ -0,0 +1,85 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { FetchError } from "node-fetch";
+import {
+  MediaWikiApiError,
+  MediaWikiHttpError,
+  parseRetryAfter,
+  retryDelay
+} from "../retry.js";
+
+describe("retryDelay", () => {
+  test("backs off exponentially with up to a quarter of jitter", () => {
+    const error = new MediaWikiApiError("maxlag", "Waiting for a database");
+    for (const [attempt, base] of [
+      [0, 1000],
+      [1, 2000],
+      [2, 4000]
+    ]) {
+      const delay = retryDelay(error, "GET", attempt, 3)!;
+      assert.ok(delay >= base && delay <= base * 1.25, `${delay}`);
+    }
+    assert.equal(retryDelay(error, "GET", 3, 3), undefined);
+  });
+
+  test("repeats writes only when the wiki did no work", () => {
+    const errors = [
+      new MediaWikiApiError("ratelimited", "Slow down"),
+      new MediaWikiHttpError(503, "Service Unavailable")
+    ];
+    for (const error of errors) {
+      assert.notEqual(retryDelay(error, "POST", 0, 3), undefined);
+    }
+
+    const readOnly = [
+      new MediaWikiApiError(
+        "internal_api_error_DBQueryTimeoutError",
+        "Timeout"
+      ),
+      new MediaWikiHttpError(502, "Bad Gateway"),
+      new FetchError("socket hang up", "system")
+    ];
+    for (const error of readOnly) {
+      assert.notEqual(retryDelay(error, "GET", 0, 3), undefined);
+      assert.equal(retryDelay(error, "POST", 0, 3), undefined);
+    }
+  });
+
+  test("gives up at once on errors that won't go away", () => {
+    assert.equal(
+      retryDelay(new MediaWikiApiError("badtitle", "Bad title"), "GET", 0, 3),
+      undefined
+    );
+    assert.equal(
+      retryDelay(new MediaWikiHttpError(404, "Not Found"), "GET", 0, 3),
+      undefined
+    );
+    assert.equal(retryDelay(new Error("bug"), "GET", 0, 3), undefined);
+  });
+
+  test("waits as long as Retry-After asks", () => {
+    const error = new MediaWikiHttpError(429, "Too Many Requests", 30000);
+    assert.equal(retryDelay(error, "POST", 0, 3), 30000);
+  });
+
+  test("fails when Retry-After asks for more than a minute", () => {
+    const error = new MediaWikiHttpError(429, "Too Many Requests", 86400000);
+    assert.equal(retryDelay(error, "GET", 0, 3), undefined);
+    assert.match(error.message, /asked to retry after 86400s/);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  test("reads seconds and HTTP dates", () => {
+    assert.equal(parseRetryAfter("120"), 120000);
+    const inAMinute = new Date(Date.now() + 60000).toUTCString();
+    const ms = parseRetryAfter(inAMinute)!;
+    assert.ok(ms > 58000 && ms <= 60000, `${ms}`);
+    assert.equal(parseRetryAfter("Thu, 01 Jan 1970 00:00:00 GMT"), 0);
+  });
+
+  test("ignores missing and unreadable values", () => {
+    assert.equal(parseRetryAfter(null), undefined);
+    assert.equal(parseRetryAfter("soon"), undefined);
+  });
+});
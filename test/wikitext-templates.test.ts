@@ -0,0 +1,73 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { setTemplateParam } from "../wikitext-templates.js";
+
+describe("setTemplateParam", () => {
+  test("replaces a value and keeps the surrounding whitespace", () => {
+    const result = setTemplateParam(
+      "{{Infobox wizard\n| name = Zed\n| affinity = Fire\n}}",
+      "Infobox wizard",
+      "affinity",
+      "Water"
+    );
+    assert.equal(
+      result.text,
+      "{{Infobox wizard\n| name = Zed\n| affinity = Water\n}}"
+    );
+    assert.equal(result.previousValue, "Fire");
+  });
+
+  test("changes the last of duplicated parameters", () => {
+    const result = setTemplateParam(
+      "{{Spell|level=1|name=Bolt|level=2}}",
+      "Spell",
+      "level",
+      "3"
+    );
+    assert.equal(result.text, "{{Spell|level=1|name=Bolt|level=3}}");
+    assert.equal(result.previousValue, "2");
+  });
+
+  test("fills in an empty value on its own line", () => {
+    const text =
+      "{{Infobox wizard\n| name = Zed\n| affinity =\n| token = 5\n}}";
+    assert.equal(
+      setTemplateParam(text, "Infobox wizard", "affinity", "Fire").text,
+      "{{Infobox wizard\n| name = Zed\n| affinity = Fire\n| token = 5\n}}"
+    );
+  });
+
+  test("fills in an empty last value with trailing spaces", () => {
+    assert.equal(
+      setTemplateParam(
+        "{{Infobox wizard\n| affinity = \n}}",
+        "Infobox wizard",
+        "affinity",
+        "Fire"
+      ).text,
+      "{{Infobox wizard\n| affinity = Fire\n}}"
+    );
+  });
+
+  test("fills in an empty value in the compact style", () => {
+    assert.equal(
+      setTemplateParam("{{Spell|name=Bolt|level=}}", "Spell", "level", "3")
+        .text,
+      "{{Spell|name=Bolt|level=3}}"
+    );
+  });
+
+  test("appends a missing parameter in the style of the others", () => {
+    const result = setTemplateParam(
+      "{{Infobox wizard\n| name = Zed\n}}",
+      "Infobox wizard",
+      "affinity",
+      "Fire"
+    );
+    assert.equal(
+      result.text,
+      "{{Infobox wizard\n| name = Zed\n| affinity = Fire\n}}"
+    );
+    assert.equal(result.added, true);
+  });
+});
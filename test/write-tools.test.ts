@@ -0,0 +1,202 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { callTool, pageContent, startFakeServer } from "./fake-server.js";
+
+describe("write tools", () => {
+  let client: Client;
+
+  before(async () => {
+    client = await startFakeServer();
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  test("create_page and update_page", async () => {
+    const created = await callTool(client, "create_page", {
+      title: "Sandbox",
+      content: "Hello [[Wizard]]"
+    });
+    assert.equal(created.json.success, true);
+
+    const duplicate = await callTool(client, "create_page", {
+      title: "Sandbox",
+      content: "Again"
+    });
+    assert.equal(duplicate.isError, true);
+
+    const updated = await callTool(client, "update_page", {
+      title: "Sandbox",
+      content: "Hello again"
+    });
+    assert.equal(updated.json.success, true);
+    assert.equal(await pageContent(client, "Sandbox"), "Hello again");
+  });
+
+  test("reads through a redirect see edits to its target", async () => {
+    await callTool(client, "create_page", {
+      title: "Cached target",
+      content: "before"
+    });
+    await callTool(client, "create_page", {
+      title: "Cached alias",
+      content: "#REDIRECT [[Cached target]]"
+    });
+    const read = async () =>
+      (await callTool(client, "read_pages", { titles: ["Cached alias"] })).json
+        .pages[0].content;
+
+    assert.equal(await read(), "before");
+    await callTool(client, "update_page", {
+      title: "Cached target",
+      content: "after"
+    });
+    assert.equal(await read(), "after");
+  });
+
+  test("batch_update edits every page", async () => {
+    const result = await callTool(client, "batch_update", {
+      edits: [
+        { title: "Batch one", content: "one" },
+        { title: "Batch two", content: "two" }
+      ]
+    });
+    assert.equal(result.json.succeeded, 2);
+    assert.equal(await pageContent(client, "Batch two"), "two");
+  });
+
+  test("update_section replaces only that section", async () => {
+    await callTool(client, "create_page", {
+      title: "Sections",
+      content: "Intro\n\n== One ==\nFirst\n\n== Two ==\nSecond"
+    });
+    const result = await callTool(client, "update_section", {
+      title: "Sections",
+      section: 1,
+      content: "== One ==\nChanged"
+    });
+    assert.equal(result.json.success, true);
+    assert.equal(
+      await pageContent(client, "Sections"),
+      "Intro\n\n== One ==\nChanged\n\n== Two ==\nSecond"
+    );
+  });
+
+  test("set_template_param changes a template parameter", async () => {
+    const result = await callTool(client, "set_template_param", {
+      title: "Wizard",
+      template: "Infobox wizard",
+      param: "affinity",
+      value: "Water"
+    });
+    assert.equal(result.json.previousValue, "Fire");
+    assert.match(
+      await pageContent(client, "Wizard"),
+      /^\{\{Infobox wizard\n\| name = Wizard\n\| affinity = Water\n\}\}\n/
+    );
+  });
+
+  test("set_template_param fills in an empty value", async () => {
+    await callTool(client, "create_page", {
+      title: "Zed",
+      content: "{{Infobox wizard\n| name = Zed\n| affinity =\n| token = 5\n}}"
+    });
+    const result = await callTool(client, "set_template_param", {
+      title: "Zed",
+      template: "Infobox wizard",
+      param: "affinity",
+      value: "Fire"
+    });
+    assert.equal(result.json.previousValue, "");
+    assert.equal(
+      await pageContent(client, "Zed"),
+      "{{Infobox wizard\n| name = Zed\n| affinity = Fire\n| token = 5\n}}"
+    );
+  });
+
+  test("revert_page restores an earlier revision", async () => {
+    const first = await callTool(client, "create_page", {
+      title: "Revert me",
+      content: "Good"
+    });
+    await callTool(client, "update_page", {
+      title: "Revert me",
+      content: "Vandalism"
+    });
+    const result = await callTool(client, "revert_page", {
+      title: "Revert me",
+      revId: first.json.newRevId
+    });
+    assert.equal(result.json.success, true);
+    assert.equal(await pageContent(client, "Revert me"), "Good");
+  });
+
+  test("move_page, delete_page and undelete_page", async () => {
+    await callTool(client, "create_page", { title: "Old name", content: "x" });
+
+    // false must not be sent as noredirect=false, which the API reads as true
+    const moved = await callTool(client, "move_page", {
+      from: "Old name",
+      to: "New name",
+      noRedirect: false
+    });
+    assert.equal(moved.json.redirectCreated, true);
+    assert.equal(await pageContent(client, "New name"), "x");
+
+    const deleted = await callTool(client, "delete_page", {
+      title: "New name",
+      reason: "test"
+    });
+    assert.equal(deleted.json.success, true);
+    assert.equal(
+      (await callTool(client, "read_page", { title: "New name" })).json.exists,
+      false
+    );
+
+    const restored = await callTool(client, "undelete_page", {
+      title: "New name"
+    });
+    assert.equal(restored.json.success, true);
+    assert.equal(await pageContent(client, "New name"), "x");
+  });
+
+  test("protect_page and purge_page", async () => {
+    const protectedPage = await callTool(client, "protect_page", {
+      title: "Main Page",
+      edit: "sysop"
+    });
+    assert.equal(protectedPage.isError, false, protectedPage.text);
+
+    const purged = await callTool(client, "purge_page", {
+      titles: ["Main Page"]
+    });
+    assert.equal(purged.json.pages[0].purged, true);
+  });
+
+  test("upload_file", async () => {
+    const result = await callTool(client, "upload_file", {
+      filename: "Hello.txt",
+      base64: Buffer.from("hello").toString("base64")
+    });
+    assert.equal(result.json.success, true);
+    assert.equal(result.json.size, 5);
+
+    // The fake wiki stays offline, so the file itself is not fetched
+    const info = await callTool(client, "get_file_info", {
+      filename: "Hello.txt",
+      includeImage: true
+    });
+    assert.match(info.text, /Image not included: Files can't be downloaded/);
+  });
+
+  test("watchlist watch and list", async () => {
+    await callTool(client, "watchlist", {
+      action: "watch",
+      titles: ["Spellbook"]
+    });
+    const pages = await callTool(client, "watchlist", { action: "pages" });
+    assert.deepEqual(pages.json.pages, ["Spellbook"]);
+  });
+});
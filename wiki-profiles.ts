@@ -0,0 +1,129 @@
+// Named wiki profiles, so one server can work with several wikis. Profiles
+// come from a JSON file:
+//
+//   {
+//     "defaultWiki": "wizzypedia",
+//     "wikis": {
+//       "wizzypedia": {
+//         "apiUrl": "https://.../api.php",
+//         "username": "Bot@mcp",
+//         "passwordFile": "/run/secrets/wizzypedia"
+//       },
+//       "staging": { "apiUrl": "https://.../api.php", "readOnly": true }
+//     }
+//   }
+//
+// Secrets are never written into the profiles file itself; each profile
+// names the environment variable or file to read them from.
+
+import fs from "fs";
+import { readSecretFile } from "./secrets.js";
+
+export interface WikiProfileConfig {
+  name: string;
+  apiUrl: string;
+  username?: string;
+  password?: string;
+  // OAuth 2.0 access token (owner-only consumer); used instead of a password
+  oauthToken?: string;
+  // Reject write tools for this wiki whatever the account may do
+  readOnly: boolean;
+  cookieFile?: string;
+}
+
+export interface WikiProfilesConfig {
+  defaultWiki: string;
+  profiles: WikiProfileConfig[];
+}
+
+// Profile names double as the value of the tools' "wiki" argument
+const PROFILE_NAME = /^[A-Za-z0-9_-]+$/;
+
+const optionalString = (
+  value: unknown,
+  field: string,
+  name: string
+): string | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new Error(`Wiki profile "${name}": ${field} must be a string`);
+  }
+  return value;
+};
+
+// A secret given as "<field>Env" (environment variable name) or
+// "<field>File" (path)
+const readProfileSecret = (
+  entry: any,
+  field: string,
+  name: string
+): string | undefined => {
+  if (entry[field] !== undefined) {
+    throw new Error(
+      `Wiki profile "${name}": put the ${field} in a file or environment variable and set ${field}File or ${field}Env instead`
+    );
+  }
+  const envName = optionalString(entry[`${field}Env`], `${field}Env`, name);
+  const filePath = optionalString(entry[`${field}File`], `${field}File`, name);
+  if (envName) {
+    const value = process.env[envName];
+    if (!value) {
+      throw new Error(
+        `Wiki profile "${name}": environment variable ${envName} is not set`
+      );
+    }
+    return value;
+  }
+  return filePath ? readSecretFile(filePath) : undefined;
+};
+
+export function loadWikiProfiles(filePath: string): WikiProfilesConfig {
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Cannot read wiki profiles from ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  if (!raw?.wikis || typeof raw.wikis !== "object") {
+    throw new Error(`${filePath} has no "wikis" object`);
+  }
+
+  const profiles = Object.entries<any>(raw.wikis).map(([name, entry]) => {
+    if (!PROFILE_NAME.test(name)) {
+      throw new Error(
+        `Invalid wiki profile name "${name}": use letters, digits, "-" and "_"`
+      );
+    }
+    const apiUrl = optionalString(entry?.apiUrl, "apiUrl", name);
+    if (!apiUrl) {
+      throw new Error(`Wiki profile "${name}" has no apiUrl`);
+    }
+    return {
+      name,
+      apiUrl,
+      username: optionalString(entry.username, "username", name),
+      password: readProfileSecret(entry, "password", name),
+      oauthToken: readProfileSecret(entry, "oauthToken", name),
+      readOnly: entry.readOnly === true,
+      cookieFile: optionalString(entry.cookieFile, "cookieFile", name)
+    };
+  });
+
+  if (profiles.length === 0) {
+    throw new Error(`${filePath} defines no wikis`);
+  }
+
+  const defaultWiki = raw.defaultWiki ?? profiles[0].name;
+  if (!profiles.some((profile) => profile.name === defaultWiki)) {
+    throw new Error(`Default wiki "${defaultWiki}" is not defined`);
+  }
+
+  return { defaultWiki, profiles };
+}
@@ -0,0 +1,313 @@
+// Parses template invocations ({{Name|a|key=value}}) out of wikitext and
+// edits single parameters in place, leaving the rest of the text untouched.
+//
+// Comments and <nowiki>/<pre>-style sections are masked out before scanning,
+// template parameters ({{{1}}}) are skipped, and pipes inside [[links]] or
+// nested templates don't split parameters.
+
+export interface TemplateParam {
+  // Explicit name, or the implicit index ("1", "2", ...) for positional params
+  name: string;
+  positional: boolean;
+  value: string;
+  // Templates used inside this parameter's value
+  templates: TemplateInvocation[];
+}
+
+export interface TemplateInvocation {
+  name: string;
+  params: TemplateParam[];
+  // Offsets of the whole invocation, "{{" to "}}" inclusive
+  start: number;
+  end: number;
+}
+
+interface ParamSegment {
+  start: number;
+  end: number;
+  // Position of the "=" that separates a named param from its value
+  equals?: number;
+}
+
+interface Frame {
+  type: "template" | "link" | "argument";
+  start: number;
+  segments: ParamSegment[];
+  nested: TemplateInvocation[];
+}
+
+// Tags whose content is never parsed for templates
+const VERBATIM_TAGS = ["nowiki", "pre", "syntaxhighlight", "source", "math"];
+
+// Replace comments and verbatim sections with NUL characters so offsets in
+// the masked text still line up with the original
+function maskWikitext(text: string): string {
+  const blank = (match: string) => "\0".repeat(match.length);
+  const verbatim = new RegExp(
+    `<(${VERBATIM_TAGS.join("|")})(\\s[^>]*)?>[\\s\\S]*?(</\\1\\s*>|$)`,
+    "gi"
+  );
+  return text
+    .replace(/<!--[\s\S]*?(-->|$)/g, blank)
+    .replace(verbatim, blank)
+    .replace(/<nowiki\s*\/>/gi, blank);
+}
+
+export function normalizeTemplateName(name: string): string {
+  const cleaned = name
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/_/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^(subst|safesubst|msgnw|msg):/i, "")
+    .replace(/^template:/i, "")
+    .trim();
+  return cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+}
+
+function buildInvocation(
+  text: string,
+  frame: Frame,
+  end: number
+): TemplateInvocation {
+  const [nameSegment, ...paramSegments] = frame.segments;
+  let position = 0;
+
+  const params = paramSegments.map((segment) => {
+    const templates = frame.nested.filter(
+      (nested) => nested.start >= segment.start && nested.end <= segment.end
+    );
+    if (segment.equals !== undefined) {
+      return {
+        name: text.slice(segment.start, segment.equals).trim(),
+        positional: false,
+        value: text.slice(segment.equals + 1, segment.end).trim(),
+        templates
+      };
+    }
+    position++;
+    return {
+      name: String(position),
+      positional: true,
+      // Whitespace is significant in positional values
+      value: text.slice(segment.start, segment.end),
+      templates
+    };
+  });
+
+  // Parser functions ({{#if:x|...}}) are reported by function name only
+  let name = normalizeTemplateName(
+    text.slice(nameSegment.start, nameSegment.end)
+  );
+  if (name.startsWith("#") && name.includes(":")) {
+    name = name.slice(0, name.indexOf(":"));
+  }
+
+  return {
+    name,
+    params,
+    start: frame.start,
+    end
+  };
+}
+
+// Scan wikitext and return every template invocation with its raw segment
+// offsets (used for editing) alongside the parsed form
+function scanTemplates(
+  text: string
+): { invocation: TemplateInvocation; segments: ParamSegment[] }[] {
+  const masked = maskWikitext(text);
+  const found: { invocation: TemplateInvocation; segments: ParamSegment[] }[] =
+    [];
+  const stack: Frame[] = [];
+  const top = () => stack[stack.length - 1];
+
+  let i = 0;
+  while (i < masked.length) {
+    // "{{{" opens a template argument unless it's "{{{{" (a template whose
+    // name is itself a template), which we read as "{{" + "{{"
+    if (masked.startsWith("{{{", i) && !masked.startsWith("{{{{", i)) {
+      stack.push({ type: "argument", start: i, segments: [], nested: [] });
+      i += 3;
+      continue;
+    }
+    if (masked.startsWith("{{", i)) {
+      stack.push({
+        type: "template",
+        start: i,
+        segments: [{ start: i + 2, end: i + 2 }],
+        nested: []
+      });
+      i += 2;
+      continue;
+    }
+    if (masked.startsWith("[[", i)) {
+      stack.push({ type: "link", start: i, segments: [], nested: [] });
+      i += 2;
+      continue;
+    }
+    if (masked.startsWith("]]", i) && top()?.type === "link") {
+      stack.pop();
+      i += 2;
+      continue;
+    }
+    if (masked.startsWith("}}}", i) && top()?.type === "argument") {
+      stack.pop();
+      i += 3;
+      continue;
+    }
+    if (masked.startsWith("}}", i)) {
+      // Close any links left open inside the template
+      while (top() && top().type === "link") {
+        stack.pop();
+      }
+      const frame = top();
+      if (frame?.type === "template") {
+        stack.pop();
+        const current = frame.segments[frame.segments.length - 1];
+        current.end = i;
+        const invocation = buildInvocation(text, frame, i + 2);
+
+        // Attach to the enclosing template, if any
+        const parent = [...stack].reverse().find((f) => f.type === "template");
+        if (parent) {
+          parent.nested.push(invocation);
+        } else {
+          found.push({ invocation, segments: frame.segments });
+        }
+      }
+      i += 2;
+      continue;
+    }
+
+    const frame = top();
+    if (frame?.type === "template") {
+      const current = frame.segments[frame.segments.length - 1];
+      if (masked[i] === "|") {
+        current.end = i;
+        frame.segments.push({ start: i + 1, end: i + 1 });
+      } else if (
+        masked[i] === "=" &&
+        frame.segments.length > 1 &&
+        current.equals === undefined
+      ) {
+        current.equals = i;
+      }
+    }
+    i++;
+  }
+
+  return found;
+}
+
+export function parseTemplates(text: string): TemplateInvocation[] {
+  return scanTemplates(text).map(({ invocation }) => invocation);
+}
+
+export interface SetTemplateParamResult {
+  text: string;
+  changed: boolean;
+  added: boolean;
+  previousValue?: string;
+}
+
+// Whether named parameters are written "name = value" rather than "name=value"
+const isSpaced = (text: string, segments: ParamSegment[]): boolean =>
+  segments
+    .slice(1)
+    .some(
+      (s) =>
+        s.equals !== undefined &&
+        (/\s$/.test(text.slice(s.start, s.equals)) ||
+          /^[ \t]/.test(text.slice(s.equals + 1, s.end)))
+    );
+
+// Set one parameter of the nth (1-based) top-level invocation of a template.
+// Existing values are replaced in place, keeping the surrounding whitespace;
+// missing parameters are appended in the style of the existing ones.
+export function setTemplateParam(
+  text: string,
+  template: string,
+  param: string,
+  value: string,
+  occurrence: number = 1
+): SetTemplateParamResult {
+  const wanted = normalizeTemplateName(template);
+  const matches = scanTemplates(text).filter(
+    ({ invocation }) => invocation.name === wanted
+  );
+  const match = matches[occurrence - 1];
+  if (!match) {
+    throw new Error(
+      matches.length === 0
+        ? `Template "${wanted}" not found on the page`
+        : `Template "${wanted}" occurs ${matches.length} time(s); occurrence ${occurrence} does not exist`
+    );
+  }
+
+  const { invocation, segments } = match;
+  const spaced = isSpaced(text, segments);
+  // MediaWiki uses the last of several parameters with the same name
+  let index = invocation.params.length - 1;
+  while (index >= 0 && invocation.params[index].name !== param.trim()) {
+    index--;
+  }
+
+  if (index >= 0) {
+    const existing = invocation.params[index];
+    const segment = segments[index + 1];
+
+    let valueStart = segment.start;
+    let valueEnd = segment.end;
+    let padding = "";
+    if (segment.equals !== undefined) {
+      const raw = text.slice(segment.equals + 1, segment.end);
+      if (raw.trim() === "") {
+        // No value yet: write it after "=" and any spaces on the same line,
+        // keeping the line break before the next parameter
+        const spaces = /^[ \t]*/.exec(raw)![0].length;
+        valueStart = valueEnd = segment.equals + 1 + spaces;
+        padding = spaces === 0 && spaced ? " " : "";
+      } else {
+        // Keep the whitespace around the value (e.g. " = Fire\n")
+        valueStart = segment.equals + 1 + (raw.length - raw.trimStart().length);
+        valueEnd = segment.end - (raw.length - raw.trimEnd().length);
+      }
+    }
+
+    const updated =
+      text.slice(0, valueStart) + padding + value + text.slice(valueEnd);
+    return {
+      text: updated,
+      changed: updated !== text,
+      added: false,
+      previousValue: existing.value
+    };
+  }
+
+  // Append a new named parameter just before the closing "}}"
+  const closing = invocation.end - 2;
+  const assignment = spaced ? `${param} = ${value}` : `${param}=${value}`;
+  const multiline = text.slice(invocation.start, invocation.end).includes("\n");
+
+  let insertion: string;
+  let insertAt = closing;
+  if (multiline) {
+    // Put the new line after the last parameter, before any whitespace that
+    // precedes "}}"
+    const before = text.slice(invocation.start, closing);
+    insertAt = invocation.start + before.trimEnd().length;
+    const prefix = spaced ? "\n| " : "\n|";
+    insertion = `${prefix}${assignment}`;
+  } else {
+    insertion = spaced ? ` | ${assignment}` : `|${assignment}`;
+    insertAt =
+      invocation.start + text.slice(invocation.start, closing).trimEnd().length;
+  }
+
+  return {
+    text: text.slice(0, insertAt) + insertion + text.slice(insertAt),
+    changed: true,
+    added: true
+  };
+}